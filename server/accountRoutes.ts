@@ -0,0 +1,98 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { comparePasswords, toPublicUser } from './auth';
+import { collectAllPages } from './pagination';
+import {
+  checkThrottle,
+  reserveAttempts,
+  settleSuccessfulLogin,
+  sendTooManyAttempts,
+  loginThrottleKeys
+} from './loginThrottle';
+
+const router = Router();
+
+const deleteAccountSchema = z.object({
+  password: z.string().min(1)
+});
+
+// Everything we hold about the user, for data access requests
+const exportAccountHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = req.user!;
+    const [snippets, tags, collections, conversations, usageEvents, apiTokens, identities] = await Promise.all([
+      collectAllPages((page) => storage.getSnippetsByUser(user.id, page)),
+      collectAllPages((page) => storage.getTagsWithCounts(user.id, page)),
+      collectAllPages((page) => storage.getCollectionsWithCounts(user.id, page)),
+      collectAllPages((page) => storage.getConversationsByUser(user.id, page)),
+      collectAllPages((page) => storage.getUsageEventsByUser(user.id, page)),
+      collectAllPages((page) => storage.getApiTokensByUser(user.id, page)),
+      collectAllPages((page) => storage.getUserIdentities(user.id, page))
+    ]);
+
+    const exportedAt = new Date();
+    res.attachment(`account-export-${exportedAt.toISOString().slice(0, 10)}.json`);
+    res.json({
+      exportedAt,
+      profile: toPublicUser(user),
+      snippets,
+      tags,
+      collections,
+      conversations,
+      usageEvents,
+      apiTokens: apiTokens.map(({ tokenHash: _, ...token }) => token),
+      identities
+    });
+  } catch (error) {
+    console.error('Error exporting account:', error);
+    res.status(500).json({ error: 'Failed to export account' });
+  }
+};
+
+const deleteAccountHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = deleteAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Password is required', details: parsed.error.errors });
+      return;
+    }
+
+    // Password guesses here count against the same limits as at login
+    const user = req.user!;
+    const throttleKeys = loginThrottleKeys(req.ip, user.username);
+    const waitMs = await checkThrottle(throttleKeys) || await reserveAttempts(throttleKeys);
+    if (waitMs > 0) {
+      sendTooManyAttempts(res, waitMs);
+      return;
+    }
+    if (!(await comparePasswords(parsed.data.password, user.password))) {
+      res.status(403).json({ error: 'Incorrect password' });
+      return;
+    }
+
+    // Billing is cancelled before anything is deleted, so a failure can't leave a paying orphan
+    if (user.isSubscribed) {
+      await storage.updateUserSubscription(user.id, false, new Date());
+    }
+
+    await storage.deleteUser(user.id);
+    await storage.destroyUserSessions(user.id, req.sessionID);
+    await settleSuccessfulLogin(req.ip, user.username);
+
+    req.logout((err) => {
+      if (err) {
+        console.error('Error logging out deleted account:', err);
+      }
+      req.session.destroy(() => res.sendStatus(204));
+    });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+};
+
+router.get('/export', exportAccountHandler);
+router.delete('/', deleteAccountHandler);
+
+export default router;
@@ -0,0 +1,270 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { throttleScopes, clearAttempts } from './loginThrottle';
+import { storage } from './storage';
+import { toPublicUser } from './auth';
+import { providers } from './providers';
+import { insertAIModelSchema, insertPlanSchema, userRoles } from '@shared/schema';
+
+const router = Router();
+
+// Ids and timestamps belong to the database, so only these fields can be set by admins
+const modelFieldsSchema = insertAIModelSchema.pick({
+  name: true,
+  description: true,
+  type: true,
+  provider: true,
+  modelId: true,
+  maxTokens: true,
+  temperature: true,
+  tags: true,
+  isDefault: true,
+  requiresSubscription: true
+});
+
+const planFieldsSchema = insertPlanSchema.pick({
+  name: true,
+  description: true,
+  price: true,
+  features: true,
+  stripePriceId: true
+});
+
+// Models must name a provider we have an adapter for
+const adminModelSchema = modelFieldsSchema.refine((data) => data.provider in providers, {
+  message: 'Unknown provider',
+  path: ['provider']
+});
+
+const updateModelSchema = modelFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided'
+  })
+  .refine((data) => data.provider === undefined || data.provider in providers, {
+    message: 'Unknown provider',
+    path: ['provider']
+  });
+
+const updatePlanSchema = planFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided'
+  });
+
+const updateRoleSchema = z.object({
+  role: z.enum(userRoles)
+});
+
+function parseId(value: string): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+const lockoutParamsSchema = z.object({
+  scope: z.enum(throttleScopes),
+  key: z.string().min(1)
+});
+
+const listLockoutsHandler: RequestHandler = async (_req, res) => {
+  try {
+    const lockouts = await storage.getActiveLockouts();
+    res.json(lockouts);
+  } catch (error) {
+    console.error('Error fetching lockouts:', error);
+    res.status(500).json({ error: 'Failed to fetch lockouts' });
+  }
+};
+
+// Clears the attempt history as well as the lock, so the key starts afresh
+const clearLockoutHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = lockoutParamsSchema.safeParse(req.params);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid lockout', details: parsed.error.errors });
+      return;
+    }
+
+    const cleared = await clearAttempts(parsed.data.scope, parsed.data.key);
+    if (!cleared) {
+      res.status(404).json({ error: 'Lockout not found' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error clearing lockout:', error);
+    res.status(500).json({ error: 'Failed to clear lockout' });
+  }
+};
+
+const createModelHandler: RequestHandler = async (req, res) => {
+  try {
+    const data = adminModelSchema.parse(req.body);
+    if (await storage.getAIModelByModelId(data.modelId)) {
+      res.status(409).json({ error: 'A model with that model ID already exists' });
+      return;
+    }
+
+    const model = await storage.createAIModel(data);
+    res.status(201).json(model);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid AI model data', details: error.errors });
+      return;
+    }
+    console.error('Error creating AI model:', error);
+    res.status(500).json({ error: 'Failed to create AI model' });
+  }
+};
+
+const updateModelHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      res.status(404).json({ error: 'AI model not found' });
+      return;
+    }
+
+    const changes = updateModelSchema.parse(req.body);
+    if (changes.modelId) {
+      const existing = await storage.getAIModelByModelId(changes.modelId);
+      if (existing && existing.id !== id) {
+        res.status(409).json({ error: 'A model with that model ID already exists' });
+        return;
+      }
+    }
+
+    const model = await storage.updateAIModel(id, changes);
+    if (!model) {
+      res.status(404).json({ error: 'AI model not found' });
+      return;
+    }
+
+    res.json(model);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid AI model data', details: error.errors });
+      return;
+    }
+    console.error('Error updating AI model:', error);
+    res.status(500).json({ error: 'Failed to update AI model' });
+  }
+};
+
+const deleteModelHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const deleted = id ? await storage.deleteAIModel(id) : false;
+
+    if (!deleted) {
+      res.status(404).json({ error: 'AI model not found' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error deleting AI model:', error);
+    res.status(500).json({ error: 'Failed to delete AI model' });
+  }
+};
+
+const createPlanHandler: RequestHandler = async (req, res) => {
+  try {
+    const plan = await storage.createPlan(planFieldsSchema.parse(req.body));
+    res.status(201).json(plan);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid plan data', details: error.errors });
+      return;
+    }
+    console.error('Error creating plan:', error);
+    res.status(500).json({ error: 'Failed to create plan' });
+  }
+};
+
+const updatePlanHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+
+    const plan = await storage.updatePlan(id, updatePlanSchema.parse(req.body));
+    if (!plan) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+
+    res.json(plan);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid plan data', details: error.errors });
+      return;
+    }
+    console.error('Error updating plan:', error);
+    res.status(500).json({ error: 'Failed to update plan' });
+  }
+};
+
+const deletePlanHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const deleted = id ? await storage.deletePlan(id) : false;
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Plan not found' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error deleting plan:', error);
+    res.status(500).json({ error: 'Failed to delete plan' });
+  }
+};
+
+const updateUserRoleHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    // Stops the last admin from locking everyone out by demoting themselves
+    const { role } = updateRoleSchema.parse(req.body);
+    if (id === req.user!.id && role !== 'admin') {
+      res.status(400).json({ error: 'Admins cannot remove their own admin role' });
+      return;
+    }
+
+    const user = await storage.updateUserRole(id, role);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    res.json(toPublicUser(user));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid role', details: error.errors });
+      return;
+    }
+    console.error('Error updating user role:', error);
+    res.status(500).json({ error: 'Failed to update user role' });
+  }
+};
+
+router.post('/models', createModelHandler);
+router.patch('/models/:id', updateModelHandler);
+router.delete('/models/:id', deleteModelHandler);
+router.post('/plans', createPlanHandler);
+router.patch('/plans/:id', updatePlanHandler);
+router.delete('/plans/:id', deletePlanHandler);
+router.patch('/users/:id/role', updateUserRoleHandler);
+router.get('/lockouts', listLockoutsHandler);
+router.delete('/lockouts/:scope/:key', clearLockoutHandler);
+
+export default router;
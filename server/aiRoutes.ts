@@ -1,6 +1,15 @@
 import { Router, Request, Response, NextFunction, RequestHandler } from 'express';
 import { z } from 'zod';
-import fetch from 'node-fetch';
+import { storage } from './storage';
+import { requireScope } from './auth';
+import { insertConversationSchema, type Conversation, type AIModel } from '@shared/schema';
+import { DEFAULT_TOP_P, type CompletionOptions } from './providers';
+import { resolveModel, resolveModelChain, unsupportedModelMessage, TEXT_MODEL_TYPES } from './models';
+import { requireEntitlement, refundRequestQuota } from './entitlements';
+import { generateWithFallback } from './generation';
+import { recordCachedUsage } from './usage';
+import { generationCache, generationCacheKey, GENERATION_CACHE_TTL_MS } from './cache';
+import { pageQuerySchema } from './pagination';
 
 const router = Router();
 
@@ -8,91 +17,90 @@ const router = Router();
 const generateCodeSchema = z.object({
   prompt: z.string().min(1, 'Prompt is required'),
   language: z.string().optional().default('javascript'),
-  model: z.string().optional().default('codellama')
+  model: z.string().optional(),
+  // Tried in order if the primary model keeps failing
+  fallbackModels: z.array(z.string().min(1)).max(5).optional().default([]),
+  // Skip the response cache, e.g. to get a fresh sample for the same prompt
+  noCache: z.boolean().optional().default(false)
 });
 
 type GenerateCodeRequest = z.infer<typeof generateCodeSchema>;
 
-interface ModelEndpoint {
-  url: string;
-  headers: Record<string, string>;
-  transform: (response: any) => string;
+const createConversationSchema = z.object({
+  title: z.string().min(1).optional().default('New conversation')
+});
+
+const sendMessageSchema = z.object({
+  content: z.string().min(1, 'Message content is required'),
+  model: z.string().optional()
+});
+
+type ChatMessage = Conversation['messages'][number];
+
+const CHAT_SYSTEM_PROMPT = 'You are a helpful coding assistant. Continue the conversation below.';
+
+function buildCodePrompt(prompt: string, language: string): string {
+  return `Write ${language} code for: ${prompt}\nOnly respond with code, no explanations.`;
 }
 
-const modelEndpoints: Record<string, ModelEndpoint> = {
-  'codellama': {
-    url: process.env.CODELLAMA_API_URL || 'https://api.replicate.com/v1/predictions',
-    headers: {
-      'Authorization': `Token ${process.env.REPLICATE_API_KEY}`,
-      'Content-Type': 'application/json'
-    },
-    transform: (response) => response.output || ''
-  },
-  'starcoder': {
-    url: process.env.STARCODER_API_URL || 'https://api.huggingface.co/models/bigcode/starcoder',
-    headers: {
-      'Authorization': `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
-      'Content-Type': 'application/json'
-    },
-    transform: (response) => response.generated_text || ''
-  },
-  'wizard-coder': {
-    url: process.env.WIZARD_CODER_API_URL || 'https://api.together.xyz/inference',
-    headers: {
-      'Authorization': `Bearer ${process.env.TOGETHER_API_KEY}`,
-      'Content-Type': 'application/json'
-    },
-    transform: (response) => response.output?.text || ''
-  }
-};
+interface CodeGenerationResult {
+  code: string;
+  modelId: string;
+  attempts: number;
+  cached: boolean;
+}
+
+async function generateCode(
+  prompt: string,
+  language: string,
+  models: AIModel[],
+  userId: number,
+  noCache: boolean,
+  options: CompletionOptions = {}
+): Promise<CodeGenerationResult> {
+  const [primary] = models;
+  const cacheKey = generationCacheKey({
+    prompt,
+    language,
+    modelId: primary.modelId,
+    maxTokens: options.maxTokens ?? primary.maxTokens,
+    temperature: options.temperature ?? primary.temperature,
+    topP: options.topP ?? DEFAULT_TOP_P
+  });
 
-async function generateCode(prompt: string, language: string, model: string): Promise<string> {
-  const endpoint = modelEndpoints[model];
-  if (!endpoint) {
-    throw new Error(`Unsupported model: ${model}`);
+  // Cache failures are logged and treated as misses; they must never block generation
+  if (!noCache) {
+    const hit = await generationCache.get(cacheKey).catch((error) => {
+      console.error('Error reading generation cache:', error);
+      return undefined;
+    });
+    if (hit) {
+      recordCachedUsage({ userId, kind: 'generate-code', modelId: hit.modelId, language, prompt }, hit.text.length);
+      options.onToken?.(hit.text);
+      return { code: hit.text, modelId: hit.modelId, attempts: 0, cached: true };
+    }
   }
 
   try {
-    // Add timeout to fetch request
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-    
-    try {
-      const response = await fetch(endpoint.url, {
-        method: 'POST',
-        headers: endpoint.headers,
-        body: JSON.stringify({
-          prompt: `Write ${language} code for: ${prompt}\nOnly respond with code, no explanations.`,
-          max_new_tokens: 1000,
-          temperature: 0.2,
-          top_p: 0.95
-        }),
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => response.statusText);
-        throw new Error(`API request failed (${response.status}): ${errorText}`);
-      }
+    const result = await generateWithFallback(models, {
+      userId,
+      kind: 'generate-code',
+      language,
+      prompt,
+      messages: [{ role: 'user', content: buildCodePrompt(prompt, language) }],
+      options
+    });
 
-      const data = await response.json();
-      const result = endpoint.transform(data);
-      
-      if (!result || result.trim() === '') {
-        throw new Error('Empty response from AI model');
-      }
-      
-      return result;
-    } catch (fetchError) {
-      if (fetchError.name === 'AbortError') {
-        throw new Error(`Request to ${model} API timed out after 30 seconds`);
-      }
-      throw fetchError;
+    // The key only names the primary model, so output from a fallback must not be stored under it
+    if (result.model.modelId === primary.modelId) {
+      generationCache
+        .set(cacheKey, { text: result.text, modelId: result.model.modelId }, GENERATION_CACHE_TTL_MS)
+        .catch((error) => console.error('Error writing generation cache:', error));
     }
+
+    return { code: result.text, modelId: result.model.modelId, attempts: result.attempts, cached: false };
   } catch (error) {
-    console.error(`Error generating code with ${model}:`, error);
+    console.error(`Error generating code with ${models.map((model) => model.modelId).join(', ')}:`, error);
     throw error;
   }
 }
@@ -101,21 +109,36 @@ const generateCodeHandler: RequestHandler = async (req, res, next): Promise<void
   try {
     // Validate input
     try {
-      const { prompt, language, model } = generateCodeSchema.parse(req.body);
+      const { prompt, language, model, fallbackModels, noCache } = generateCodeSchema.parse(req.body);
+
+      const chain = await resolveModelChain(model, fallbackModels, TEXT_MODEL_TYPES);
+      if (!chain.models) {
+        res.status(400).json({ error: 'Invalid request data', message: unsupportedModelMessage(chain.missing) });
+        return;
+      }
       
       // Generate code
       try {
-        const code = await generateCode(prompt, language, model);
-        res.json({ code, language });
+        const result = await generateCode(prompt, language, chain.models, req.user!.id, noCache);
+        res.json({
+          code: result.code,
+          language,
+          model: result.modelId,
+          attempts: result.attempts,
+          cached: result.cached
+        });
       } catch (genError: any) {
         console.error('Code generation error:', genError);
         res.status(500).json({ 
           error: 'Failed to generate code', 
           message: genError.message || 'Unknown error occurred',
-          model
+          model: chain.models[0].modelId
         });
       }
     } catch (validationError: any) {
+      if (!(validationError instanceof z.ZodError)) {
+        throw validationError;
+      }
       console.error('Validation error:', validationError);
       res.status(400).json({ 
         error: 'Invalid request data', 
@@ -128,6 +151,196 @@ const generateCodeHandler: RequestHandler = async (req, res, next): Promise<void
   }
 };
 
-router.post('/generate-code', generateCodeHandler);
+// Streams generation progress as server-sent events: `token` for each chunk of output,
+// then a single `done` event with the assembled code, or `error` if generation failed
+const streamGenerateCodeHandler: RequestHandler = async (req, res) => {
+  const parsed = generateCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid request data', message: parsed.error.message });
+    return;
+  }
+
+  const { prompt, language, model, fallbackModels, noCache } = parsed.data;
+
+  let models: AIModel[];
+  try {
+    const chain = await resolveModelChain(model, fallbackModels, TEXT_MODEL_TYPES);
+    if (!chain.models) {
+      res.status(400).json({ error: 'Invalid request data', message: unsupportedModelMessage(chain.missing) });
+      return;
+    }
+    models = chain.models;
+  } catch (error) {
+    console.error('Error resolving model:', error);
+    res.status(500).json({ error: 'Failed to generate code', message: 'Could not load model registry' });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  // Cancel the upstream request as soon as the client goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const result = await generateCode(prompt, language, models, req.user!.id, noCache, {
+      signal: controller.signal,
+      onToken: (text) => sendEvent('token', { text })
+    });
+    sendEvent('done', {
+      code: result.code,
+      language,
+      model: result.modelId,
+      attempts: result.attempts,
+      cached: result.cached
+    });
+  } catch (error: any) {
+    if (controller.signal.aborted && res.destroyed) {
+      return;
+    }
+    console.error('Streaming code generation error:', error);
+    refundRequestQuota(res);
+    sendEvent('error', {
+      error: 'Failed to generate code',
+      message: error.message || 'Unknown error occurred',
+      model: models[0].modelId
+    });
+  }
+  res.end();
+};
+
+// Conversations are private to their owner; anything else is reported as missing
+async function getOwnedConversation(id: string, userId: number): Promise<Conversation | undefined> {
+  const conversationId = Number(id);
+  if (!Number.isInteger(conversationId) || conversationId <= 0) {
+    return undefined;
+  }
+  const conversation = await storage.getConversation(conversationId);
+  return conversation?.userId === userId ? conversation : undefined;
+}
+
+const listConversationsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getConversationsByUser(req.user!.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    res.status(500).json({ error: 'Failed to fetch conversations' });
+  }
+};
+
+const createConversationHandler: RequestHandler = async (req, res) => {
+  try {
+    const { title } = createConversationSchema.parse(req.body);
+    const conversation = await storage.createConversation(
+      insertConversationSchema.parse({ userId: req.user!.id, title, messages: [] })
+    );
+    res.status(201).json(conversation);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request data', message: error.message });
+      return;
+    }
+    console.error('Error creating conversation:', error);
+    res.status(500).json({ error: 'Failed to create conversation' });
+  }
+};
+
+const getConversationHandler: RequestHandler = async (req, res) => {
+  try {
+    const conversation = await getOwnedConversation(req.params.id, req.user!.id);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+    res.json(conversation);
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    res.status(500).json({ error: 'Failed to fetch conversation' });
+  }
+};
+
+const sendMessageHandler: RequestHandler = async (req, res) => {
+  let model: string | undefined;
+  try {
+    const parsed = sendMessageSchema.parse(req.body);
+    model = parsed.model;
+
+    const aiModel = await resolveModel(model, ['chat', 'code']);
+    if (!aiModel) {
+      res.status(400).json({ error: 'Invalid request data', message: unsupportedModelMessage(model) });
+      return;
+    }
+    model = aiModel.modelId;
+
+    const conversation = await getOwnedConversation(req.params.id, req.user!.id);
+    if (!conversation) {
+      res.status(404).json({ error: 'Conversation not found' });
+      return;
+    }
+
+    const turn: ChatMessage = { role: 'user', content: parsed.content };
+    const reply = await generateWithFallback([aiModel], {
+      userId: req.user!.id,
+      kind: 'chat',
+      prompt: parsed.content,
+      messages: [{ role: 'system', content: CHAT_SYSTEM_PROMPT }, ...conversation.messages, turn]
+    });
+
+    // Both turns are persisted together so a failed generation leaves the history untouched
+    const updated = await storage.appendConversationMessages(conversation.id, [
+      turn,
+      { role: 'assistant', content: reply.text.trim() }
+    ]);
+    res.json(updated);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid request data', message: error.message });
+      return;
+    }
+    console.error('Conversation message error:', error);
+    res.status(500).json({
+      error: 'Failed to generate reply',
+      message: error.message || 'Unknown error occurred',
+      model
+    });
+  }
+};
+
+router.post('/generate-code', requireScope('generate'), requireEntitlement(TEXT_MODEL_TYPES), generateCodeHandler);
+router.post(
+  '/generate-code/stream',
+  requireScope('generate'),
+  requireEntitlement(TEXT_MODEL_TYPES),
+  streamGenerateCodeHandler
+);
+router.get('/conversations', requireScope('conversations'), listConversationsHandler);
+router.post('/conversations', requireScope('conversations'), createConversationHandler);
+router.get('/conversations/:id', requireScope('conversations'), getConversationHandler);
+router.post(
+  '/conversations/:id/messages',
+  requireScope('conversations'),
+  requireEntitlement(['chat', 'code']),
+  sendMessageHandler
+);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { generateToken, hashToken } from './tokens';
+import { pageQuerySchema } from './pagination';
+import { insertApiTokenSchema, type ApiToken } from '@shared/schema';
+
+const router = Router();
+
+// Prefix makes leaked tokens easy to spot in logs and secret scanners
+const TOKEN_PREFIX = 'pat_';
+
+const createApiTokenSchema = insertApiTokenSchema.pick({ name: true, scopes: true }).extend({
+  expiresInDays: z.number().int().min(1).max(365).optional()
+});
+
+// Never expose the hash, even to the token's owner
+function toPublicToken({ tokenHash: _, ...token }: ApiToken) {
+  return token;
+}
+
+const listApiTokensHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getApiTokensByUser(req.user!.id, parsed.data);
+    res.json({ ...page, items: page.items.map(toPublicToken) });
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    res.status(500).json({ error: 'Failed to fetch API tokens' });
+  }
+};
+
+const createApiTokenHandler: RequestHandler = async (req, res) => {
+  try {
+    const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+    const token = TOKEN_PREFIX + generateToken();
+
+    const apiToken = await storage.createApiToken(insertApiTokenSchema.parse({
+      userId: req.user!.id,
+      name,
+      scopes,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 8),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+    }));
+
+    // The plaintext token is only ever returned here
+    res.status(201).json({ ...toPublicToken(apiToken), token });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid API token data', details: error.errors });
+      return;
+    }
+    console.error('Error creating API token:', error);
+    res.status(500).json({ error: 'Failed to create API token' });
+  }
+};
+
+const revokeApiTokenHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    const revoked = Number.isInteger(id) && id > 0
+      ? await storage.revokeApiToken(id, req.user!.id)
+      : false;
+
+    if (!revoked) {
+      res.status(404).json({ error: 'API token not found' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    res.status(500).json({ error: 'Failed to revoke API token' });
+  }
+};
+
+router.get('/', listApiTokensHandler);
+router.post('/', createApiTokenHandler);
+router.delete('/:id', revokeApiTokenHandler);
+
+export default router;
@@ -1,11 +1,24 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Strategy as BearerStrategy } from "passport-http-bearer";
+import { Express, Request, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as UserType } from "@shared/schema";
+import { User as UserType, type ApiTokenScope, type UserRole } from "@shared/schema";
+import { sendVerificationEmail } from "./emailVerification";
+import { hashToken } from "./tokens";
+import {
+  checkThrottle,
+  reserveAttempt,
+  reserveAttempts,
+  releaseAttempt,
+  settleSuccessfulLogin,
+  sendTooManyAttempts,
+  loginThrottleKeys,
+} from "./loginThrottle";
+import { touchSession } from "./sessions";
 
 declare global {
   namespace Express {
@@ -15,28 +28,121 @@ declare global {
       username: string;
       email: string;
       password: string;
+      emailVerifiedAt: Date | null;
+      emailGrandfathered: boolean;
+      role: string;
+      totpSecret: string | null;
+      totpEnabledAt: Date | null;
+      totpLastUsedStep: number | null;
       isSubscribed?: boolean;
       subscriptionEndDate: Date | null;
       createdAt: Date;
     }
+
+    // Set when the request was authenticated with a personal access token
+    interface AuthInfo {
+      tokenId?: number;
+      scopes?: string[];
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for an account with two-factor auth, until the code is checked
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // Shown to the user in their list of active sessions
+    meta?: { createdAt: number; lastSeenAt: number; ip?: string; userAgent?: string };
   }
 }
 
+// How long the second step of a two-factor login may take
+export const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const derivedKey = (await scryptAsync(password, salt, 64)) as Buffer;
   return salt + ":" + derivedKey.toString("hex");
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [salt, hashedPassword] = stored.split(":");
   const derivedKey = (await scryptAsync(supplied, salt, 64)) as Buffer;
   const storedDerivedKey = Buffer.from(hashedPassword, "hex");
   return timingSafeEqual(derivedKey, storedDerivedKey);
 }
 
+// Strip credentials before a user is sent to the client
+export function toPublicUser({ password: _, totpSecret: __, totpLastUsedStep: ___, ...user }: Express.User) {
+  return user;
+}
+
+function isTokenRequest(req: Request): boolean {
+  return req.authInfo?.tokenId !== undefined;
+}
+
+// Middleware to check authentication. Account management stays session-only, so API
+// tokens are turned away here; routes open to tokens use requireScope instead.
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+  if (isTokenRequest(req)) {
+    res.status(403).json({ error: "This endpoint is not available to API tokens" });
+    return;
+  }
+  next();
+};
+
+// Sessions hold every scope; API tokens only the ones they were created with
+export function hasScope(req: Request, scope: ApiTokenScope): boolean {
+  return !isTokenRequest(req) || Boolean(req.authInfo?.scopes?.includes(scope));
+}
+
+// Middleware for routes that API tokens may reach: sessions always pass, tokens need the scope
+export function requireScope(scope: ApiTokenScope): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+    if (!hasScope(req, scope)) {
+      res.status(403).json({ error: `API token is missing the "${scope}" scope` });
+      return;
+    }
+    next();
+  };
+}
+
+// Middleware for session-only routes restricted to some roles; tokens are refused as in requireAuth
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    requireAuth(req, res, () => {
+      if (!roles.includes(req.user!.role as UserRole)) {
+        res.status(403).json({ error: "Insufficient permissions" });
+        return;
+      }
+      next();
+    });
+  };
+}
+
+export function isAdmin(user: Express.User): boolean {
+  return user.role === "admin";
+}
+
+// Accounts whose verified email is in ADMIN_EMAILS are promoted at startup, so a fresh
+// deployment has an admin. Usernames aren't trusted here since anyone can register one first
+async function promoteConfiguredAdmins() {
+  const emails = (process.env.ADMIN_EMAILS || "").split(",").map((email) => email.trim()).filter(Boolean);
+  if (emails.length > 0) {
+    await storage.promoteVerifiedEmailsToRole(emails, "admin");
+  }
+}
+
 export function setupAuth(app: Express) {
   const sessionSecret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
   
@@ -51,6 +157,10 @@ export function setupAuth(app: Express) {
     }
   };
 
+  promoteConfiguredAdmins().catch((error) => {
+    console.error('Error promoting configured admins:', error);
+  });
+
   app.set("trust proxy", 1);
   app.use(session(sessionSettings));
   app.use(passport.initialize());
@@ -70,6 +180,54 @@ export function setupAuth(app: Express) {
     }),
   );
 
+  passport.use(
+    // The token's id and scopes go straight onto req.authInfo for the scope checks
+    new BearerStrategy({ passReqToCallback: true }, async (req: Request, token: string, done: (error: unknown, user?: Express.User | false) => void) => {
+      try {
+        const apiToken = await storage.getActiveApiTokenByHash(hashToken(token));
+        const user = apiToken && await storage.getUser(apiToken.userId);
+        if (!apiToken || !user) {
+          return done(null, false);
+        }
+
+        storage.touchApiToken(apiToken.id).catch((error) => {
+          console.error('Error recording API token use:', error);
+        });
+        req.authInfo = { tokenId: apiToken.id, scopes: apiToken.scopes };
+        return done(null, user);
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  // Requests carrying a bearer token are authenticated by it alone, without a session
+  app.use((req, res, next) => {
+    if (!req.headers.authorization?.startsWith("Bearer ")) {
+      return next();
+    }
+
+    passport.authenticate("bearer", { session: false }, (err: Error, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid or expired API token" });
+      }
+
+      req.login(user, { session: false }, (err) => {
+        if (err) return next(err);
+        next();
+      });
+    })(req, res, next);
+  });
+
+  // Keep the created/last-seen details behind the session list current
+  app.use((req, _res, next) => {
+    if (req.isAuthenticated() && !isTokenRequest(req)) {
+      touchSession(req);
+    }
+    next();
+  });
+
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     try {
@@ -87,6 +245,13 @@ export function setupAuth(app: Express) {
   // Authentication routes
   app.post("/api/register", async (req, res, next) => {
     try {
+      // Every sign-up counts, successful or not, since mass account creation is the abuse
+      const ip = req.ip ?? "unknown";
+      const waitMs = await checkThrottle([["register-ip", ip]]) || await reserveAttempt("register-ip", ip);
+      if (waitMs > 0) {
+        return sendTooManyAttempts(res, waitMs);
+      }
+
       const { username, email, password } = req.body;
       
       // Check if username or email already exists
@@ -107,32 +272,62 @@ export function setupAuth(app: Express) {
         password: hashedPassword,
       });
 
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
+      // A mail outage shouldn't block sign-up; the user can ask for a resend
+      sendVerificationEmail(user).catch((error) => {
+        console.error('Error sending verification email:', error);
+      });
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(userWithoutPassword);
+        touchSession(req);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (err) {
       next(err);
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: Error, user: Express.User | false | null, info: any) => {
+  app.post("/api/login", async (req, res, next) => {
+    // Throttled keys are turned away before scrypt runs, so floods cost us a lookup each.
+    // The attempt is counted up front and given back only once the password checks out
+    const throttleKeys = loginThrottleKeys(req.ip, req.body?.username);
+    try {
+      const waitMs = await checkThrottle(throttleKeys) || await reserveAttempts(throttleKeys);
+      if (waitMs > 0) {
+        return sendTooManyAttempts(res, waitMs);
+      }
+    } catch (err) {
+      return next(err);
+    }
+
+    passport.authenticate("local", async (err: Error, user: Express.User | false | null, info: any) => {
       if (err) return next(err);
       if (!user) {
         return res.status(401).json({ error: info?.message || "Invalid credentials" });
       }
-      
+
+      // The password alone isn't enough; /api/login/2fa finishes the login, and clears
+      // the username's failures only once the code checks out too
+      if (user.totpEnabledAt) {
+        releaseAttempt("login-ip", req.ip ?? "unknown").catch((error) => {
+          console.error('Error releasing login attempt:', error);
+        });
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      settleSuccessfulLogin(req.ip, user.username).catch((error) => {
+        console.error('Error clearing login attempts:', error);
+      });
+
       req.login(user, (err) => {
         if (err) return next(err);
-        
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        
-        res.status(200).json(userWithoutPassword);
+        touchSession(req);
+        res.status(200).json(toPublicUser(user));
       });
     })(req, res, next);
   });
@@ -148,10 +343,7 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: "Not authenticated" });
     }
-    
-    // Remove password from response
-    const { password, ...userWithoutPassword } = req.user;
-    
-    res.json(userWithoutPassword);
+
+    res.json(toPublicUser(req.user));
   });
 }
\ No newline at end of file
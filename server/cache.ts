@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { storage } from './storage';
+
+export interface CachedGeneration {
+  text: string;
+  modelId: string;
+}
+
+export interface GenerationCache {
+  get(key: string): Promise<CachedGeneration | undefined>;
+  set(key: string, value: CachedGeneration, ttlMs: number): Promise<void>;
+}
+
+export const GENERATION_CACHE_TTL_MS = Number(process.env.GENERATION_CACHE_TTL_MS) || 60 * 60 * 1000;
+
+export interface GenerationCacheKeyInput {
+  prompt: string;
+  language: string;
+  modelId: string;
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+}
+
+// Requests that differ only in whitespace, line endings or language casing share a key
+export function generationCacheKey(input: GenerationCacheKeyInput): string {
+  const prompt = input.prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+  const normalised = JSON.stringify([
+    prompt,
+    input.language.trim().toLowerCase(),
+    input.modelId,
+    input.maxTokens,
+    input.temperature,
+    input.topP
+  ]);
+  return createHash('sha256').update(normalised).digest('hex');
+}
+
+// In-process LRU cache. Map iteration order is insertion order, so re-inserting on
+// every hit keeps the least recently used entry first in line for eviction.
+export class MemoryLruCache implements GenerationCache {
+  private entries = new Map<string, CachedGeneration & { expiresAt: number }>();
+
+  constructor(private maxEntries = 500) {}
+
+  async get(key: string): Promise<CachedGeneration | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return { text: entry.text, modelId: entry.modelId };
+  }
+
+  async set(key: string, value: CachedGeneration, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { ...value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+// Cache shared across instances, backed by the generation_cache table
+export class PostgresCache implements GenerationCache {
+  private lastPrunedAt = 0;
+
+  constructor(private pruneIntervalMs = 15 * 60 * 1000) {}
+
+  async get(key: string): Promise<CachedGeneration | undefined> {
+    const entry = await storage.getCachedGeneration(key);
+    return entry && { text: entry.text, modelId: entry.modelId };
+  }
+
+  async set(key: string, value: CachedGeneration, ttlMs: number): Promise<void> {
+    await storage.setCachedGeneration(key, value.text, value.modelId, new Date(Date.now() + ttlMs));
+
+    // Expired rows are never read, so they only need clearing out occasionally
+    if (Date.now() - this.lastPrunedAt > this.pruneIntervalMs) {
+      this.lastPrunedAt = Date.now();
+      await storage.deleteExpiredGenerations();
+    }
+  }
+}
+
+export const generationCache: GenerationCache = process.env.GENERATION_CACHE === 'postgres'
+  ? new PostgresCache()
+  : new MemoryLruCache(Number(process.env.GENERATION_CACHE_MAX_ENTRIES) || 500);
@@ -0,0 +1,191 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { storage, UniqueViolationError } from './storage';
+import { pageQuerySchema } from './pagination';
+import { insertCollectionSchema, type Collection } from '@shared/schema';
+
+const router = Router();
+
+const createCollectionSchema = insertCollectionSchema.pick({ name: true, description: true });
+const updateCollectionSchema = createCollectionSchema.partial();
+
+function parseId(value: string): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// Other users' collections are reported as missing so their ids don't leak
+async function getOwnedCollection(idParam: string, userId: number): Promise<Collection | undefined> {
+  const id = parseId(idParam);
+  const collection = id ? await storage.getCollection(id) : undefined;
+  return collection && collection.userId === userId ? collection : undefined;
+}
+
+async function nameTaken(userId: number, name: string, exceptId?: number): Promise<boolean> {
+  const existing = await storage.getCollectionByName(userId, name);
+  return !!existing && existing.id !== exceptId;
+}
+
+const listCollectionsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getCollectionsWithCounts(req.user!.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching collections:', error);
+    res.status(500).json({ error: 'Failed to fetch collections' });
+  }
+};
+
+const createCollectionHandler: RequestHandler = async (req, res) => {
+  try {
+    const data = { ...createCollectionSchema.parse(req.body), userId: req.user!.id };
+    if (await nameTaken(data.userId, data.name)) {
+      res.status(409).json({ error: 'A collection with that name already exists' });
+      return;
+    }
+
+    const collection = await storage.createCollection(data);
+    res.status(201).json(collection);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid collection data', details: error.errors });
+      return;
+    }
+    // The name check above can lose a race with a concurrent request; the unique index can't
+    if (error instanceof UniqueViolationError) {
+      res.status(409).json({ error: 'A collection with that name already exists' });
+      return;
+    }
+    console.error('Error creating collection:', error);
+    res.status(500).json({ error: 'Failed to create collection' });
+  }
+};
+
+const updateCollectionHandler: RequestHandler = async (req, res) => {
+  try {
+    const changes = updateCollectionSchema.parse(req.body);
+    const collection = await getOwnedCollection(req.params.id, req.user!.id);
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+    if (changes.name && (await nameTaken(collection.userId, changes.name, collection.id))) {
+      res.status(409).json({ error: 'A collection with that name already exists' });
+      return;
+    }
+
+    const updated = await storage.updateCollection(collection.id, changes);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid collection data', details: error.errors });
+      return;
+    }
+    // The name check above can lose a race with a concurrent request; the unique index can't
+    if (error instanceof UniqueViolationError) {
+      res.status(409).json({ error: 'A collection with that name already exists' });
+      return;
+    }
+    console.error('Error updating collection:', error);
+    res.status(500).json({ error: 'Failed to update collection' });
+  }
+};
+
+// Deleting a collection leaves its snippets in place
+const deleteCollectionHandler: RequestHandler = async (req, res) => {
+  try {
+    const collection = await getOwnedCollection(req.params.id, req.user!.id);
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    await storage.deleteCollection(collection.id);
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    res.status(500).json({ error: 'Failed to delete collection' });
+  }
+};
+
+const listCollectionSnippetsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const collection = await getOwnedCollection(req.params.id, req.user!.id);
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    const page = await storage.getSnippetsByCollection(collection.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching collection snippets:', error);
+    res.status(500).json({ error: 'Failed to fetch collection snippets' });
+  }
+};
+
+// Idempotent: adding a snippet that is already in the collection is a no-op
+const addSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const collection = await getOwnedCollection(req.params.id, req.user!.id);
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    const snippetId = parseId(req.params.snippetId);
+    const snippet = snippetId ? await storage.getSnippet(snippetId) : undefined;
+    if (!snippet || snippet.userId !== req.user!.id) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    await storage.addSnippetToCollection(collection.id, snippet.id);
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error adding snippet to collection:', error);
+    res.status(500).json({ error: 'Failed to add snippet to collection' });
+  }
+};
+
+const removeSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const collection = await getOwnedCollection(req.params.id, req.user!.id);
+    const snippetId = parseId(req.params.snippetId);
+    const removed = collection && snippetId
+      ? await storage.removeSnippetFromCollection(collection.id, snippetId)
+      : false;
+
+    if (!removed) {
+      res.status(404).json({ error: 'Snippet not found in collection' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error removing snippet from collection:', error);
+    res.status(500).json({ error: 'Failed to remove snippet from collection' });
+  }
+};
+
+router.get('/', listCollectionsHandler);
+router.post('/', createCollectionHandler);
+router.patch('/:id', updateCollectionHandler);
+router.delete('/:id', deleteCollectionHandler);
+router.get('/:id/snippets', listCollectionSnippetsHandler);
+router.put('/:id/snippets/:snippetId', addSnippetHandler);
+router.delete('/:id/snippets/:snippetId', removeSnippetHandler);
+
+export default router;
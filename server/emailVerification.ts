@@ -0,0 +1,133 @@
+import { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { mailer, appUrl } from "./mailer";
+import { generateToken, hashToken } from "./tokens";
+
+const EMAIL_VERIFICATION = "email-verification";
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Resends are limited to one a minute and five a day per account
+const RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_SENDS_PER_DAY = 5;
+
+// Accounts created before verification was introduced never got a link, so they are
+// grandfathered rather than locked out of plans they may already pay for. The cutoff is
+// recorded the first time the app starts with verification, unless this overrides it.
+const VERIFICATION_REQUIRED_FROM_SETTING = "email-verification-required-from";
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export function isEmailVerified(user: Express.User): boolean {
+  return Boolean(user.emailVerifiedAt);
+}
+
+// For plan and model checks only; grandfathered accounts haven't proved they own the address
+export function meetsEmailRequirement(user: Express.User): boolean {
+  return isEmailVerified(user) || user.emailGrandfathered;
+}
+
+export async function sendVerificationEmail(user: { id: number; username: string; email: string }) {
+  // Only the newest link works
+  await storage.invalidateAuthTokens(user.id, EMAIL_VERIFICATION);
+
+  const token = generateToken();
+  await storage.createAuthToken(
+    user.id,
+    EMAIL_VERIFICATION,
+    hashToken(token),
+    new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS)
+  );
+
+  const link = appUrl(`/verify-email?token=${encodeURIComponent(token)}`);
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Hi ${user.username},\n\nPlease confirm this is your email address by opening the link below. It expires in 24 hours.\n\n${link}\n\nUntil you do, subscriptions and premium models stay locked.`,
+  });
+}
+
+async function verificationRequiredFrom(): Promise<Date> {
+  const configured = process.env.EMAIL_VERIFICATION_REQUIRED_FROM;
+  const cutoff = configured
+    ? new Date(configured)
+    : new Date(await storage.getOrInitSetting(VERIFICATION_REQUIRED_FROM_SETTING, new Date().toISOString()));
+  if (Number.isNaN(cutoff.getTime())) {
+    throw new Error(`Invalid EMAIL_VERIFICATION_REQUIRED_FROM: ${configured}`);
+  }
+  return cutoff;
+}
+
+// Idempotent, so it simply runs at every startup
+async function backfillExistingAccounts() {
+  const count = await storage.grandfatherEmailsBefore(await verificationRequiredFrom());
+  if (count > 0) {
+    console.log(`Grandfathered ${count} pre-existing accounts without a verified email`);
+  }
+}
+
+export function setupEmailVerification(app: Express) {
+  backfillExistingAccounts().catch((error) => {
+    console.error("Error backfilling email verification:", error);
+  });
+
+  app.get("/api/verify-email", async (req, res, next) => {
+    try {
+      const parsed = verifyEmailSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Verification token is required" });
+      }
+
+      const token = await storage.consumeAuthToken(EMAIL_VERIFICATION, hashToken(parsed.data.token));
+      if (!token) {
+        return res.status(400).json({ error: "Invalid or expired verification token" });
+      }
+
+      await storage.markEmailVerified(token.userId);
+      res.json({ message: "Email verified" });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/verify-email/resend", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+
+      const user = req.user;
+      if (isEmailVerified(user)) {
+        return res.status(400).json({ error: "Email is already verified" });
+      }
+
+      const recent = await storage.getAuthTokensSince(
+        user.id,
+        EMAIL_VERIFICATION,
+        new Date(Date.now() - 24 * 60 * 60 * 1000)
+      );
+
+      // Tokens come back newest first
+      const retryAfterMs = recent.length >= MAX_SENDS_PER_DAY
+        ? recent[MAX_SENDS_PER_DAY - 1].createdAt.getTime() + 24 * 60 * 60 * 1000 - Date.now()
+        : recent.length > 0
+          ? recent[0].createdAt.getTime() + RESEND_INTERVAL_MS - Date.now()
+          : 0;
+
+      if (retryAfterMs > 0) {
+        res.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+        return res.status(429).json({
+          error: "Verification email was sent recently",
+          retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        });
+      }
+
+      await sendVerificationEmail(user);
+      res.status(202).json({ message: "Verification email sent" });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,109 @@
+import type { RequestHandler, Response } from 'express';
+import { storage } from './storage';
+import { resolveModel } from './models';
+import { meetsEmailRequirement } from './emailVerification';
+
+// Matches the Basic plan's advertised "Limited to 50 requests per day"
+export const FREE_DAILY_REQUEST_LIMIT = Number(process.env.FREE_DAILY_REQUEST_LIMIT) || 50;
+
+export function hasActiveSubscription(user: Express.User): boolean {
+  return Boolean(user.isSubscribed) &&
+    (!user.subscriptionEndDate || new Date(user.subscriptionEndDate) > new Date());
+}
+
+// Quotas reset at midnight UTC
+function currentQuotaWindow(now = new Date()) {
+  const day = now.toISOString().slice(0, 10);
+  const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  return { day, resetsAt };
+}
+
+// Hands back a request's quota slot. Safe to call more than once; only the first call counts.
+export function refundRequestQuota(res: Response) {
+  const refund = res.locals.refundRequestQuota as (() => void) | undefined;
+  refund?.();
+}
+
+// Gate AI requests on login, premium models (which need a verified email and a subscription)
+// and the free-plan daily quota. Must run after the body is parsed (and after multer for
+// multipart routes) so the requested models are known. Unknown models are passed through
+// for the handler to reject.
+//
+// The quota slot is reserved up front so concurrent requests can't overshoot the limit,
+// then refunded if the request ends in an error response: invalid input, unknown models
+// and failed generations don't use up the day's allowance. Handlers that report failure
+// inside a 200 response (such as event streams) call refundRequestQuota themselves.
+export function requireEntitlement(modelTypes: string[]): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const user = req.user;
+      const subscribed = hasActiveSubscription(user);
+      // Fallback models are checked too, so a premium model can't be reached through the chain
+      const fallbackModels: unknown[] = Array.isArray(req.body?.fallbackModels) ? req.body.fallbackModels : [];
+      const requested = [req.body?.model || undefined, ...fallbackModels.filter((id): id is string => typeof id === 'string')];
+      const models = await Promise.all(requested.map((id) => resolveModel(id, modelTypes)));
+      const model = models.find((candidate) => candidate?.requiresSubscription);
+
+      if (model && !meetsEmailRequirement(user)) {
+        res.status(403).json({
+          error: 'Email verification required',
+          limit: 'email_verification',
+          model: model.modelId,
+          message: `Verify your email address to use ${model.name}`
+        });
+        return;
+      }
+
+      if (model && !subscribed) {
+        res.status(402).json({
+          error: 'Subscription required',
+          limit: 'subscription',
+          model: model.modelId,
+          message: `${model.name} is only available on a paid plan`
+        });
+        return;
+      }
+
+      if (!subscribed) {
+        const { day, resetsAt } = currentQuotaWindow();
+        const used = await storage.incrementDailyRequestCount(user.id, day);
+
+        let refunded = false;
+        res.locals.refundRequestQuota = () => {
+          if (refunded) return;
+          refunded = true;
+          storage.decrementDailyRequestCount(user.id, day).catch((error) => {
+            console.error('Error refunding request quota:', error);
+          });
+        };
+        res.on('finish', () => {
+          if (res.statusCode >= 400) {
+            refundRequestQuota(res);
+          }
+        });
+
+        if (used > FREE_DAILY_REQUEST_LIMIT) {
+          res.set('Retry-After', String(Math.ceil((resetsAt.getTime() - Date.now()) / 1000)));
+          res.status(429).json({
+            error: 'Daily request limit reached',
+            limit: 'daily_requests',
+            max: FREE_DAILY_REQUEST_LIMIT,
+            used: FREE_DAILY_REQUEST_LIMIT,
+            resetsAt: resetsAt.toISOString()
+          });
+          return;
+        }
+      }
+
+      next();
+    } catch (error) {
+      console.error('Error checking entitlements:', error);
+      res.status(500).json({ error: 'Failed to check request entitlements' });
+    }
+  };
+}
@@ -0,0 +1,74 @@
+import type { AIModel, InsertUsageEvent } from '@shared/schema';
+import { runCompletion, ProviderError, type ChatMessage, type CompletionOptions } from './providers';
+import { withRetry, isRetryable, defaultRetryOptions } from './providers/retry';
+import { meterUsage } from './usage';
+
+export interface GenerationRequest {
+  userId: number;
+  kind: InsertUsageEvent['kind'];
+  language?: string;
+  // The user's own input, recorded for usage metering
+  prompt: string;
+  messages: ChatMessage[];
+  options?: CompletionOptions;
+}
+
+export interface GenerationResult {
+  text: string;
+  model: AIModel;
+  attempts: number;
+}
+
+// Try each model in order, retrying transient failures with backoff before falling back
+// to the next one. Every attempt is metered separately so slow providers show up in usage.
+export async function generateWithFallback(
+  models: AIModel[],
+  request: GenerationRequest
+): Promise<GenerationResult> {
+  const { options = {} } = request;
+  let attempts = 0;
+  let emitted = false;
+  let lastError: unknown = new Error('No models to try');
+
+  // Once output has reached the client a retry would duplicate it
+  const onToken = options.onToken && ((text: string) => {
+    emitted = true;
+    options.onToken!(text);
+  });
+
+  for (const model of models) {
+    try {
+      const text = await withRetry(
+        () => {
+          attempts++;
+          return meterUsage(
+            {
+              userId: request.userId,
+              kind: request.kind,
+              modelId: model.modelId,
+              language: request.language,
+              prompt: request.prompt
+            },
+            () => runCompletion(model, request.messages, {
+              maxTokens: model.maxTokens,
+              temperature: model.temperature,
+              ...options,
+              onToken
+            })
+          );
+        },
+        { ...defaultRetryOptions, signal: options.signal },
+        (error) => !emitted && isRetryable(error)
+      );
+      return { text, model, attempts };
+    } catch (error: any) {
+      lastError = error;
+      if (emitted || options.signal?.aborted || !(error instanceof ProviderError)) {
+        throw error;
+      }
+      console.warn(`Model ${model.modelId} failed after retries, trying next fallback: ${error.message}`);
+    }
+  }
+
+  throw lastError;
+}
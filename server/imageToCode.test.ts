@@ -0,0 +1,130 @@
+import './testing/env';
+import { test, describe, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AIModel } from '@shared/schema';
+import { startStandIn, sendJson, type StandIn } from './testing/standIn';
+import { providers, runCompletion } from './providers';
+import { createOpenAIAdapter } from './providers/openai';
+import { createAnthropicAdapter } from './providers/anthropic';
+import { storage } from './storage';
+import { generateCodeFromImage, buildImagePrompt } from './imageToCode';
+
+const IMAGE = Buffer.from('fake png bytes');
+
+function visionModel(overrides: Partial<AIModel>): AIModel {
+  return {
+    id: 1,
+    name: 'Vision',
+    description: 'Test vision model',
+    type: 'image-to-code',
+    provider: 'openai',
+    modelId: 'vision-test',
+    maxTokens: 500,
+    temperature: 0.2,
+    tags: [],
+    isDefault: false,
+    requiresSubscription: false,
+    createdAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('generateCodeFromImage', () => {
+  let server: StandIn;
+  const originalProviders = { ...providers };
+
+  before(async () => {
+    mock.method(storage, 'createUsageEvent', async () => ({}));
+    server = await startStandIn((req, res) => {
+      if (req.path === '/v1/chat/completions') {
+        return sendJson(res, { choices: [{ message: { content: '```jsx\nexport default () => <main />;\n```' } }] });
+      }
+      if (req.path === '/v1/messages') {
+        return sendJson(res, { content: [{ type: 'text', text: '<main></main>' }] });
+      }
+      sendJson(res, { error: 'not found' }, 404);
+    });
+    providers.openai = createOpenAIAdapter({ baseUrl: `${server.url}/v1`, apiKey: 'test' });
+    providers.anthropic = createAnthropicAdapter({ baseUrl: `${server.url}/v1`, apiKey: 'test' });
+  });
+
+  after(async () => {
+    Object.assign(providers, originalProviders);
+    mock.restoreAll();
+    await server.close();
+  });
+
+  test('sends the image as a data URL with a prompt for the target language', async () => {
+    const result = await generateCodeFromImage([visionModel({})], {
+      image: IMAGE,
+      mimeType: 'image/png',
+      language: 'jsx',
+      userId: 7
+    });
+
+    // The Markdown fence the model added is stripped
+    assert.equal(result.text, 'export default () => <main />;');
+    const request = server.requests.at(-1)!;
+    const [message] = request.body.messages;
+    assert.equal(message.content[0].type, 'text');
+    assert.equal(message.content[0].text, buildImagePrompt('jsx'));
+    assert.match(message.content[0].text, /^Target language: jsx$/m);
+    assert.deepEqual(message.content[1], {
+      type: 'image_url',
+      image_url: { url: `data:image/png;base64,${IMAGE.toString('base64')}` }
+    });
+  });
+
+  test('puts the image block before the text for Anthropic', async () => {
+    const result = await generateCodeFromImage([visionModel({ provider: 'anthropic', modelId: 'claude-vision' })], {
+      image: IMAGE,
+      mimeType: 'image/jpeg',
+      language: 'html',
+      userId: 7
+    });
+
+    assert.equal(result.text, '<main></main>');
+    const [message] = server.requests.at(-1)!.body.messages;
+    assert.deepEqual(message.content[0], {
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/jpeg', data: IMAGE.toString('base64') }
+    });
+    assert.equal(message.content[1].type, 'text');
+  });
+
+  test('skips text-only providers and falls back to the next vision model', async () => {
+    const requestsBefore = server.requests.length;
+    const result = await generateCodeFromImage(
+      [visionModel({ provider: 'mistral', modelId: 'mistral-large' }), visionModel({ id: 2 })],
+      { image: IMAGE, mimeType: 'image/png', language: 'jsx', userId: 7 }
+    );
+
+    assert.equal(result.model.id, 2);
+    assert.equal(result.attempts, 2);
+    // Only the fallback reached the network
+    assert.equal(server.requests.length, requestsBefore + 1);
+  });
+
+  test('serves the canned template from the explicit mock provider', async () => {
+    const result = await generateCodeFromImage([visionModel({ provider: 'mock', modelId: 'mock-templates' })], {
+      image: IMAGE,
+      mimeType: 'image/png',
+      language: 'css',
+      userId: 7
+    });
+
+    assert.match(result.text, /^\/\* Generated CSS from the uploaded image \*\//);
+  });
+});
+
+describe('image support', () => {
+  test('Mistral refuses image input even though it shares the OpenAI wire format', async () => {
+    assert.equal(providers.mistral.supportsImages, false);
+    await assert.rejects(
+      runCompletion({ provider: 'mistral', modelId: 'mistral-large-latest' }, [
+        { role: 'user', content: 'What is this?', images: [{ mimeType: 'image/png', data: 'AAAA' }] }
+      ]),
+      /does not accept image input/
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import type { AIModel } from '@shared/schema';
+import { generateWithFallback } from './generation';
+
+// What each target language should look like; anything else gets the generic instruction
+const languageInstructions: Record<string, string> = {
+  html: 'Produce a single self-contained HTML document with the CSS in a <style> element.',
+  jsx: 'Produce a single React function component as the default export, using className for styling hooks.',
+  tsx: 'Produce a single typed React function component as the default export, using className for styling hooks.',
+  vue: 'Produce a single Vue single-file component with <template>, <script setup> and <style scoped> blocks.',
+  css: 'Produce only the CSS for the layout, assuming semantic class names for each region.'
+};
+
+// The "Target language:" line is also what the mock provider keys its templates on
+export function buildImagePrompt(language: string): string {
+  const instruction = languageInstructions[language] ??
+    `Produce ${language} code that recreates the interface.`;
+
+  return [
+    'Recreate the user interface shown in this image as code.',
+    `Target language: ${language}`,
+    instruction,
+    'Match the layout, hierarchy, spacing and colours as closely as you can, using placeholder text where the image is unreadable.',
+    'Only respond with code, no explanations.'
+  ].join('\n');
+}
+
+// Vision models like to wrap their answer in a Markdown fence even when told not to
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] : text;
+}
+
+export interface ImageToCodeRequest {
+  image: Buffer;
+  mimeType: string;
+  language: string;
+  userId: number;
+}
+
+export async function generateCodeFromImage(models: AIModel[], request: ImageToCodeRequest) {
+  const prompt = buildImagePrompt(request.language);
+  const result = await generateWithFallback(models, {
+    userId: request.userId,
+    kind: 'image-to-code',
+    language: request.language,
+    prompt,
+    messages: [{
+      role: 'user',
+      content: prompt,
+      images: [{ mimeType: request.mimeType, data: request.image.toString('base64') }]
+    }]
+  });
+
+  return { ...result, text: stripCodeFence(result.text) };
+}
@@ -0,0 +1,59 @@
+import "./testing/env";
+import { test, describe, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import type { LoginAttempt } from "@shared/schema";
+import { storage } from "./storage";
+import { reserveAttempts, settleSuccessfulLogin, loginThrottleKeys } from "./loginThrottle";
+
+// Each call reads and writes the map without yielding, like the single upsert statement does
+const loginAttempts = new Map<string, LoginAttempt>();
+
+describe("login throttle", () => {
+  before(() => {
+    mock.method(storage, "recordLoginAttempt", async (scope: string, key: string) => {
+      const now = new Date();
+      const existing = loginAttempts.get(`${scope}:${key}`);
+      const attempt = existing
+        ? { ...existing, attempts: existing.attempts + 1, lastAttemptAt: now }
+        : { scope, key, attempts: 1, windowStartedAt: now, lastAttemptAt: now, lockedUntil: null };
+      loginAttempts.set(`${scope}:${key}`, attempt);
+      return attempt;
+    });
+    mock.method(storage, "lockLoginAttempts", async (scope: string, key: string, until: Date) => {
+      const attempt = loginAttempts.get(`${scope}:${key}`);
+      if (attempt) attempt.lockedUntil = until;
+    });
+    mock.method(storage, "releaseLoginAttempt", async (scope: string, key: string) => {
+      const attempt = loginAttempts.get(`${scope}:${key}`);
+      if (attempt) attempt.attempts = Math.max(attempt.attempts - 1, 0);
+    });
+    mock.method(storage, "clearLoginAttempts", async (scope: string, key: string) =>
+      loginAttempts.delete(`${scope}:${key}`)
+    );
+  });
+
+  after(() => mock.restoreAll());
+
+  beforeEach(() => loginAttempts.clear());
+
+  test("lets no more than the lockout limit through when guesses arrive together", async () => {
+    const keys = loginThrottleKeys("203.0.113.7", "alice");
+
+    const waits = await Promise.all(Array.from({ length: 25 }, () => reserveAttempts(keys)));
+
+    assert.equal(waits.filter((waitMs) => waitMs === 0).length, 10);
+    assert.ok(loginAttempts.get("login-username:alice")!.lockedUntil);
+    assert.ok((await reserveAttempts(keys)) > 0);
+  });
+
+  test("clears the username and hands the address back only its own attempt on success", async () => {
+    const keys = loginThrottleKeys("203.0.113.7", "Alice");
+    await reserveAttempts(loginThrottleKeys("203.0.113.7", "bob"));
+    await reserveAttempts(keys);
+
+    await settleSuccessfulLogin("203.0.113.7", "Alice");
+
+    assert.equal(loginAttempts.has("login-username:alice"), false);
+    assert.equal(loginAttempts.get("login-ip:203.0.113.7")!.attempts, 1);
+  });
+});
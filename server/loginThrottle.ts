@@ -0,0 +1,125 @@
+import type { Response } from "express";
+import type { LoginAttempt } from "@shared/schema";
+import { storage } from "./storage";
+
+export const throttleScopes = ["login-ip", "login-username", "register-ip"] as const;
+export type ThrottleScope = typeof throttleScopes[number];
+
+interface ThrottlePolicy {
+  // Attempts are counted over this window, starting from the first one
+  windowMs: number;
+  // Attempts allowed before each further one has to wait, doubling from baseDelayMs
+  delayAfter: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Attempts in one window that lock the key out entirely
+  lockAfter: number;
+  lockoutMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Per-IP limits are looser than per-username ones since many users can share an address
+const policies: Record<ThrottleScope, ThrottlePolicy> = {
+  "login-username": {
+    windowMs: 60 * MINUTE_MS,
+    delayAfter: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+    lockAfter: 10,
+    lockoutMs: 15 * MINUTE_MS,
+  },
+  "login-ip": {
+    windowMs: 60 * MINUTE_MS,
+    delayAfter: 20,
+    baseDelayMs: 1000,
+    maxDelayMs: 30 * 1000,
+    lockAfter: 100,
+    lockoutMs: 15 * MINUTE_MS,
+  },
+  "register-ip": {
+    windowMs: 60 * MINUTE_MS,
+    delayAfter: 10,
+    baseDelayMs: 0,
+    maxDelayMs: 0,
+    lockAfter: 10,
+    lockoutMs: 60 * MINUTE_MS,
+  },
+};
+
+// How long the key must wait before its next attempt, or 0 if it may go ahead now
+export function retryAfterMs(scope: ThrottleScope, attempt: LoginAttempt | undefined, now = Date.now()): number {
+  if (!attempt) return 0;
+
+  const policy = policies[scope];
+  if (attempt.lockedUntil) {
+    return Math.max(attempt.lockedUntil.getTime() - now, 0);
+  }
+  if (attempt.windowStartedAt.getTime() + policy.windowMs <= now || attempt.attempts < policy.delayAfter) {
+    return 0;
+  }
+
+  const delay = Math.min(policy.baseDelayMs * 2 ** (attempt.attempts - policy.delayAfter), policy.maxDelayMs);
+  return Math.max(attempt.lastAttemptAt.getTime() + delay - now, 0);
+}
+
+// Checks every key before any scrypt work is done, returning the longest wait
+export async function checkThrottle(keys: [ThrottleScope, string][]): Promise<number> {
+  const attempts = await Promise.all(keys.map(([scope, key]) => storage.getLoginAttempt(scope, key)));
+  return Math.max(0, ...attempts.map((attempt, i) => retryAfterMs(keys[i][0], attempt)));
+}
+
+// Counts the attempt before the password is compared, so parallel guesses can't all pass
+// checkThrottle ahead of the first recorded failure. Returns the wait if it's over the limit
+export async function reserveAttempt(scope: ThrottleScope, key: string): Promise<number> {
+  const policy = policies[scope];
+  const now = Date.now();
+  const attempt = await storage.recordLoginAttempt(scope, key, new Date(now - policy.windowMs));
+
+  if (attempt.lockedUntil) {
+    return Math.max(attempt.lockedUntil.getTime() - now, 0);
+  }
+  if (attempt.attempts > policy.lockAfter) {
+    await storage.lockLoginAttempts(scope, key, new Date(now + policy.lockoutMs));
+    return policy.lockoutMs;
+  }
+  return 0;
+}
+
+export async function reserveAttempts(keys: [ThrottleScope, string][]): Promise<number> {
+  const waits = await Promise.all(keys.map(([scope, key]) => reserveAttempt(scope, key)));
+  return Math.max(0, ...waits);
+}
+
+// Gives back one reserved attempt
+export async function releaseAttempt(scope: ThrottleScope, key: string): Promise<void> {
+  await storage.releaseLoginAttempt(scope, key);
+}
+
+export async function clearAttempts(scope: ThrottleScope, key: string): Promise<boolean> {
+  return storage.clearLoginAttempts(scope, key);
+}
+
+// A verified login starts the username's count over, but only hands the address back its
+// own attempt, so logging in to one real account can't wipe an attacker's tally
+export async function settleSuccessfulLogin(ip: string | undefined, username: unknown): Promise<void> {
+  await Promise.all([
+    clearAttempts("login-username", usernameKey(username)),
+    releaseAttempt("login-ip", ip ?? "unknown"),
+  ]);
+}
+
+export function sendTooManyAttempts(res: Response, waitMs: number) {
+  const retryAfterSeconds = Math.ceil(waitMs / 1000);
+  res.set("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({ error: "Too many attempts, please try again later", retryAfterSeconds });
+}
+
+// Usernames are unique as typed, but case variants shouldn't get a fresh allowance
+export function usernameKey(username: unknown): string {
+  return String(username ?? "").trim().toLowerCase();
+}
+
+export function loginThrottleKeys(ip: string | undefined, username: unknown): [ThrottleScope, string][] {
+  return [["login-ip", ip ?? "unknown"], ["login-username", usernameKey(username)]];
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = process.env.MAIL_FROM || "no-reply@localhost";
+
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: mailFrom, ...message });
+  }
+}
+
+// Writes each message to a JSON file instead of sending it, for local development and tests
+export class OutboxMailer implements Mailer {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${randomBytes(4).toString("hex")}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: mailFrom, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export const mailer: Mailer = process.env.MAIL_TRANSPORT === "smtp"
+  ? new SmtpMailer({
+      host: process.env.SMTP_HOST || "localhost",
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    })
+  : new OutboxMailer(process.env.MAIL_OUTBOX_DIR || path.resolve("mail-outbox"));
+
+// Absolute link into the client app, for use in emails
+export function appUrl(pathname: string): string {
+  return new URL(pathname, process.env.APP_URL || "http://localhost:5000").toString();
+}
@@ -0,0 +1,58 @@
+import { storage } from './storage';
+import { collectAllPages } from './pagination';
+import type { AIModel } from '@shared/schema';
+
+// Model types that can serve text generation; image-to-code models have their own pipeline
+export const TEXT_MODEL_TYPES = ['code', 'chat'];
+
+// Short names clients sent before models lived in ai_models, mapped onto the model ids
+// they used to select. Still accepted so older clients keep working.
+const legacyModelNames: Record<string, string> = {
+  'codellama': process.env.CODELLAMA_MODEL || 'meta/codellama-34b-instruct',
+  'starcoder': process.env.STARCODER_MODEL || 'bigcode/starcoder',
+  'wizard-coder': process.env.WIZARD_CODER_MODEL || 'WizardLM/WizardCoder-Python-34B-V1.0'
+};
+
+// Resolve the requested model id against the ai_models registry. Without one we fall back
+// to the default model of the first preferred type that has any rows.
+export async function resolveModel(model: string | undefined, types: string[]): Promise<AIModel | undefined> {
+  if (model) {
+    const row = await storage.getAIModelByModelId(model) ??
+      (legacyModelNames[model] ? await storage.getAIModelByModelId(legacyModelNames[model]) : undefined);
+    return row && types.includes(row.type) ? row : undefined;
+  }
+
+  for (const type of types) {
+    const candidates = await collectAllPages((page) => storage.getAIModelsByType(type, page));
+    const fallback = candidates.find((candidate) => candidate.isDefault) ?? candidates[0];
+    if (fallback) {
+      return fallback;
+    }
+  }
+  return undefined;
+}
+
+export function unsupportedModelMessage(model: string | undefined): string {
+  return model ? `Unsupported model: ${model}` : 'No default model is configured';
+}
+
+// Resolve the primary model followed by its fallbacks, dropping duplicates. If any
+// identifier can't be resolved it is returned as `missing` instead.
+export async function resolveModelChain(
+  model: string | undefined,
+  fallbackModels: string[],
+  types: string[]
+): Promise<{ models: AIModel[]; missing?: undefined } | { models?: undefined; missing: string | undefined }> {
+  const models: AIModel[] = [];
+
+  for (const requested of [model, ...fallbackModels]) {
+    const resolved = await resolveModel(requested, types);
+    if (!resolved) {
+      return { missing: requested };
+    }
+    if (!models.some((existing) => existing.id === resolved.id)) {
+      models.push(resolved);
+    }
+  }
+  return { models };
+}
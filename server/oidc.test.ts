@@ -0,0 +1,251 @@
+import "./testing/env";
+import { test, describe, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+import express from "express";
+import session from "express-session";
+import passport from "passport";
+import type { User, InsertUser } from "@shared/schema";
+import { storage } from "./storage";
+import { startStandIn, sendJson, type StandIn } from "./testing/standIn";
+import { startTestClient, type TestClient } from "./testing/client";
+
+const CLIENT_ID = "code-gen";
+const CLIENT_SECRET = "client-secret";
+
+// The stand-in IdP signs ID tokens with this key and publishes it at its JWKS endpoint
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: "test" }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+// In-memory stand-ins for the storage methods the OIDC login uses
+const users = new Map<number, User>();
+const identities: { userId: number; provider: string; subject: string; email: string }[] = [];
+
+function addUser(fields: Partial<User> & InsertUser): User {
+  const user: User = {
+    id: users.size + 1,
+    emailVerifiedAt: null,
+    emailGrandfathered: false,
+    role: "user",
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+    isSubscribed: false,
+    stripeCustomerId: "",
+    stripeSubscriptionId: "",
+    subscriptionEndDate: null,
+    createdAt: new Date(),
+    ...fields,
+  };
+  users.set(user.id, user);
+  return user;
+}
+
+function installFakeStorage() {
+  mock.method(storage, "getUser", async (id: number) => users.get(id));
+  mock.method(storage, "getUserByUsername", async (username: string) =>
+    Array.from(users.values()).find((user) => user.username === username)
+  );
+  mock.method(storage, "getUserByEmail", async (email: string) =>
+    Array.from(users.values()).find((user) => user.email.toLowerCase() === email.toLowerCase())
+  );
+  mock.method(storage, "getUserByIdentity", async (provider: string, subject: string) => {
+    const identity = identities.find((i) => i.provider === provider && i.subject === subject);
+    return identity && users.get(identity.userId);
+  });
+  mock.method(storage, "linkUserIdentity", async (userId: number, provider: string, subject: string, email: string) => {
+    identities.push({ userId, provider, subject, email });
+  });
+  mock.method(
+    storage,
+    "createUserWithIdentity",
+    async (fields: InsertUser, provider: string, subject: string, emailVerified: boolean) => {
+      const user = addUser({ ...fields, emailVerifiedAt: emailVerified ? new Date() : null });
+      identities.push({ userId: user.id, provider, subject, email: fields.email });
+      return user;
+    }
+  );
+}
+
+describe("OIDC login", () => {
+  let idp: StandIn;
+  let client: TestClient;
+  // Authorization codes the stand-in IdP has handed out, with what the token request must match
+  const authorizations = new Map<string, { codeChallenge: string; claims: Record<string, unknown> }>();
+
+  before(async () => {
+    idp = await startStandIn((req, res) => {
+      if (req.path === "/.well-known/openid-configuration") {
+        return sendJson(res, {
+          issuer: idp.url,
+          authorization_endpoint: `${idp.url}/authorize`,
+          token_endpoint: `${idp.url}/token`,
+          jwks_uri: `${idp.url}/jwks`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["RS256"],
+          code_challenge_methods_supported: ["S256"],
+        });
+      }
+      if (req.path === "/jwks") {
+        return sendJson(res, { keys: [{ ...publicKey.export({ format: "jwk" }), kid: "test", alg: "RS256", use: "sig" }] });
+      }
+      if (req.path === "/token" && req.method === "POST") {
+        const form = new URLSearchParams(req.body);
+        const authorization = authorizations.get(form.get("code") ?? "");
+        const verifier = form.get("code_verifier") ?? "";
+        if (!authorization || base64url(createHash("sha256").update(verifier).digest()) !== authorization.codeChallenge) {
+          return sendJson(res, { error: "invalid_grant" }, 400);
+        }
+        authorizations.delete(form.get("code")!);
+        const now = Math.floor(Date.now() / 1000);
+        return sendJson(res, {
+          access_token: "access-token",
+          token_type: "Bearer",
+          expires_in: 300,
+          id_token: signIdToken({ iss: idp.url, aud: CLIENT_ID, iat: now, exp: now + 300, ...authorization.claims }),
+        });
+      }
+      sendJson(res, { error: "not found" }, 404);
+    });
+
+    // The OIDC module reads its settings when it loads, so it's imported once they're in place
+    process.env.OIDC_DISCOVERY_URL = idp.url;
+    process.env.OIDC_CLIENT_ID = CLIENT_ID;
+    process.env.OIDC_CLIENT_SECRET = CLIENT_SECRET;
+    process.env.OIDC_REDIRECT_URI = "http://app.test/api/auth/oidc/callback";
+    const { setupOidc } = await import("./oidc");
+
+    installFakeStorage();
+    const app = express();
+    app.use(session({ secret: "test", resave: false, saveUninitialized: false }));
+    app.use(passport.initialize());
+    app.use(passport.session());
+    passport.serializeUser((user, done) => done(null, user.id));
+    passport.deserializeUser(async (id: number, done) => done(null, await storage.getUser(id)));
+    setupOidc(app);
+    app.get("/test/session", (req, res) => res.json({
+      userId: req.user?.id ?? null,
+      pendingTwoFactor: req.session.pendingTwoFactor?.userId ?? null,
+    }));
+    client = await startTestClient(app);
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await client.close();
+    await idp.close();
+  });
+
+  beforeEach(() => {
+    users.clear();
+    identities.length = 0;
+    client.clearCookies();
+  });
+
+  // Starts a login, has the IdP approve it for these claims, and follows the callback
+  async function signIn(claims: Record<string, unknown>) {
+    const login = await client.request("GET", "/api/auth/oidc/login");
+    assert.equal(login.status, 302);
+    const authorize = new URL(login.headers.get("location")!);
+    assert.equal(authorize.origin + authorize.pathname, `${idp.url}/authorize`);
+
+    const code = randomBytes(8).toString("hex");
+    authorizations.set(code, { codeChallenge: authorize.searchParams.get("code_challenge")!, claims });
+    const callback = await client.request(
+      "GET",
+      `/api/auth/oidc/callback?code=${code}&state=${authorize.searchParams.get("state")}`
+    );
+    const current = await client.request("GET", "/test/session");
+    return { authorize, callback, session: current.body };
+  }
+
+  test("runs the code flow with PKCE and creates an account just in time", async () => {
+    const { authorize, callback, session } = await signIn({
+      sub: "idp-1",
+      email: "New.Person@Example.com",
+      email_verified: true,
+      preferred_username: "new person",
+    });
+
+    assert.equal(authorize.searchParams.get("code_challenge_method"), "S256");
+    assert.equal(authorize.searchParams.get("client_id"), CLIENT_ID);
+    const tokenRequest = idp.requests.find((req) => req.path === "/token")!;
+    assert.equal(tokenRequest.headers.authorization, `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64")}`);
+
+    assert.equal(callback.status, 302);
+    assert.equal(callback.headers.get("location"), "/");
+    const [user] = users.values();
+    assert.equal(session.userId, user.id);
+    assert.equal(user.username, "newperson");
+    assert.equal(user.email, "new.person@example.com");
+    assert.ok(user.emailVerifiedAt);
+  });
+
+  test("signs a returning identity straight in", async () => {
+    await signIn({ sub: "idp-2", email: "back@example.com", email_verified: true });
+    client.clearCookies();
+
+    const { session } = await signIn({ sub: "idp-2", email: "back@example.com", email_verified: true });
+
+    assert.equal(users.size, 1);
+    assert.equal(session.userId, 1);
+  });
+
+  test("links an existing account whose email differs only in case", async () => {
+    const existing = addUser({ username: "alice", email: "Alice@Example.com", password: "hash", emailVerifiedAt: new Date() });
+
+    const { session } = await signIn({ sub: "idp-3", email: "alice@example.com", email_verified: true });
+
+    assert.equal(users.size, 1);
+    assert.equal(session.userId, existing.id);
+    assert.deepEqual(identities.map((i) => i.userId), [existing.id]);
+  });
+
+  test("refuses to link an account that never verified its email", async () => {
+    const existing = addUser({ username: "squatter", email: "victim@example.com", password: "hash" });
+
+    const { callback, session } = await signIn({ sub: "idp-6", email: "victim@example.com", email_verified: true });
+
+    assert.equal(callback.headers.get("location"), "/login?error=sso");
+    assert.equal(session.userId, null);
+    assert.equal(identities.length, 0);
+    assert.equal(existing.emailVerifiedAt, null);
+  });
+
+  test("refuses to link when the IdP hasn't verified the email", async () => {
+    addUser({ username: "alice", email: "alice@example.com", password: "hash", emailVerifiedAt: new Date() });
+
+    const { callback, session } = await signIn({ sub: "idp-4", email: "alice@example.com", email_verified: false });
+
+    assert.equal(callback.headers.get("location"), "/login?error=sso");
+    assert.equal(session.userId, null);
+    assert.equal(identities.length, 0);
+  });
+
+  test("asks accounts with local 2FA for their code instead of signing them in", async () => {
+    const existing = addUser({
+      username: "alice",
+      email: "alice@example.com",
+      password: "hash",
+      emailVerifiedAt: new Date(),
+      totpEnabledAt: new Date(),
+    });
+
+    const { callback, session } = await signIn({ sub: "idp-5", email: "alice@example.com", email_verified: true });
+
+    assert.equal(callback.headers.get("location"), "/login?step=2fa");
+    assert.equal(session.userId, null);
+    assert.equal(session.pendingTwoFactor, existing.id);
+  });
+});
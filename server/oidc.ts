@@ -0,0 +1,167 @@
+import passport from "passport";
+import { Express, RequestHandler } from "express";
+import { randomBytes } from "crypto";
+import { Issuer, Strategy, type TokenSet, type IdTokenClaims } from "openid-client";
+import { storage } from "./storage";
+import { hashPassword, TWO_FACTOR_LOGIN_TTL_MS } from "./auth";
+import { appUrl } from "./mailer";
+import { touchSession } from "./sessions";
+
+// Single sign-on against an OpenID Connect provider, enabled when OIDC_DISCOVERY_URL is set.
+// The provider's metadata is fetched on first use, so a slow IdP doesn't hold up startup.
+const discoveryUrl = process.env.OIDC_DISCOVERY_URL;
+const clientId = process.env.OIDC_CLIENT_ID;
+const clientSecret = process.env.OIDC_CLIENT_SECRET;
+const redirectUri = process.env.OIDC_REDIRECT_URI || appUrl("/api/auth/oidc/callback");
+const scope = process.env.OIDC_SCOPES || "openid email profile";
+
+// Where the browser ends up after signing in, or failing to
+const successRedirect = process.env.OIDC_SUCCESS_REDIRECT || "/";
+const failureRedirect = process.env.OIDC_FAILURE_REDIRECT || "/login?error=sso";
+// Accounts with local 2FA land here to enter their code, which /api/login/2fa then checks
+const twoFactorRedirect = process.env.OIDC_TWO_FACTOR_REDIRECT || "/login?step=2fa";
+
+const STRATEGY_NAME = "oidc";
+
+export function isOidcEnabled(): boolean {
+  return Boolean(discoveryUrl && clientId);
+}
+
+let strategyReady: Promise<void> | undefined;
+
+function ensureStrategy(): Promise<void> {
+  strategyReady ??= (async () => {
+    const issuer = await Issuer.discover(discoveryUrl!);
+    const client = new issuer.Client({
+      client_id: clientId!,
+      client_secret: clientSecret,
+      redirect_uris: [redirectUri],
+      response_types: ["code"],
+      token_endpoint_auth_method: clientSecret ? "client_secret_basic" : "none",
+    });
+
+    // Authorization code flow with PKCE; state, nonce and the verifier are kept in the session
+    passport.use(STRATEGY_NAME, new Strategy({ client, params: { scope }, usePKCE: true }, (tokenSet: TokenSet, done: (err: unknown, user?: Express.User | false, info?: { message: string }) => void) => {
+      findOrCreateOidcUser(issuer.metadata.issuer, tokenSet.claims())
+        .then((result) => ("user" in result ? done(null, result.user) : done(null, false, { message: result.error })))
+        .catch((err) => done(err));
+    }));
+  })().catch((err) => {
+    // Try discovery again on the next request rather than staying broken until a restart
+    strategyReady = undefined;
+    throw err;
+  });
+
+  return strategyReady;
+}
+
+// Turns a name from the IdP into one that satisfies our username rules and isn't taken
+async function availableUsername(claims: IdTokenClaims): Promise<string> {
+  const candidate = String(claims.preferred_username || claims.email?.split("@")[0] || "user")
+    .replace(/[^a-zA-Z0-9_.-]/g, "")
+    .slice(0, 40)
+    .padEnd(3, "0");
+
+  if (!(await storage.getUserByUsername(candidate))) {
+    return candidate;
+  }
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const username = `${candidate}-${randomBytes(3).toString("hex")}`;
+    if (!(await storage.getUserByUsername(username))) {
+      return username;
+    }
+  }
+  throw new Error("Could not find a free username");
+}
+
+// Known identities sign straight in. New ones are linked to the local account with the same
+// email, but only when the IdP vouches for that email; otherwise a user is created.
+export async function findOrCreateOidcUser(
+  issuer: string,
+  claims: IdTokenClaims
+): Promise<{ user: Express.User } | { error: string }> {
+  const linked = await storage.getUserByIdentity(issuer, claims.sub);
+  if (linked) {
+    return { user: linked };
+  }
+
+  const email = claims.email?.toLowerCase();
+  if (!email) {
+    return { error: "The identity provider did not share an email address" };
+  }
+  const emailVerified = claims.email_verified === true;
+
+  const existing = await storage.getUserByEmail(email);
+  if (existing) {
+    if (!emailVerified) {
+      return { error: "An account with this email exists, but the identity provider has not verified it" };
+    }
+    // Anyone can register a local account under an address they don't own, so linking needs
+    // both sides to have proved it, or whoever set that password keeps access to this login
+    if (!existing.emailVerifiedAt) {
+      return { error: "An account with this email exists, but its email has not been verified" };
+    }
+    await storage.linkUserIdentity(existing.id, issuer, claims.sub, email);
+    return { user: existing };
+  }
+
+  // Just-in-time accounts get a random password nobody knows; a reset can set a real one
+  const user = await storage.createUserWithIdentity(
+    {
+      username: await availableUsername(claims),
+      email,
+      password: await hashPassword(randomBytes(32).toString("hex")),
+    },
+    issuer,
+    claims.sub,
+    emailVerified
+  );
+  return { user };
+}
+
+const withStrategy: RequestHandler = (_req, res, next) => {
+  if (!isOidcEnabled()) {
+    res.status(404).json({ error: "Single sign-on is not configured" });
+    return;
+  }
+  ensureStrategy().then(() => next(), (err) => {
+    console.error("Error discovering OIDC provider:", err);
+    res.status(503).json({ error: "Single sign-on is unavailable" });
+  });
+};
+
+export function setupOidc(app: Express) {
+  app.get("/api/auth/oidc/login", withStrategy, passport.authenticate(STRATEGY_NAME));
+
+  app.get("/api/auth/oidc/callback", withStrategy, (req, res, next) => {
+    passport.authenticate(STRATEGY_NAME, (err: Error, user: Express.User | false, info?: { message?: string }) => {
+      if (err) {
+        console.error("Error completing OIDC login:", err);
+        return res.redirect(failureRedirect);
+      }
+      if (!user) {
+        if (info?.message) {
+          console.warn("OIDC login refused:", info.message);
+        }
+        return res.redirect(failureRedirect);
+      }
+
+      // The IdP may have been linked to an account by email alone, so whatever second factor
+      // it asked for doesn't stand in for the one the account holder turned on here
+      if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        return res.redirect(twoFactorRedirect);
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        touchSession(req);
+        res.redirect(successRedirect);
+      });
+    })(req, res, next);
+  });
+}
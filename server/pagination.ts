@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { desc, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Every list endpoint pages newest first, keyed on (createdAt, id) so rows inserted
+// while a client is paging never shift it onto duplicates or skip rows.
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Rows without a serial id page on a string key instead, such as the public session id
+export interface PageCursor<Id extends number | string = number> {
+  createdAt: Date;
+  id: Id;
+}
+
+export interface PageRequest<Id extends number | string = number> {
+  limit: number;
+  cursor?: PageCursor<Id>;
+}
+
+type CursorIdType = 'number' | 'string';
+type CursorId<T extends CursorIdType> = T extends 'string' ? string : number;
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+interface PagedColumns {
+  createdAt: AnyPgColumn;
+  id: AnyPgColumn;
+}
+
+// Cursors are opaque to clients; the encoding can change without breaking them
+export function encodeCursor({ createdAt, id }: PageCursor<number | string>): string {
+  return Buffer.from(JSON.stringify([createdAt.toISOString(), id])).toString('base64url');
+}
+
+export function decodeCursor<T extends CursorIdType = 'number'>(
+  value: string,
+  idType: T = 'number' as T
+): PageCursor<CursorId<T>> | undefined {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const date = new Date(createdAt);
+    if (typeof createdAt !== 'string' || Number.isNaN(date.getTime())) {
+      return undefined;
+    }
+    if (idType === 'number' ? !Number.isInteger(id) : typeof id !== 'string') {
+      return undefined;
+    }
+    return { createdAt: date, id };
+  } catch {
+    return undefined;
+  }
+}
+
+function pageQuery<T extends CursorIdType>(idType: T) {
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional().default(DEFAULT_PAGE_SIZE),
+    cursor: z.string().optional().transform((value, ctx) => {
+      if (value === undefined) return undefined;
+      const cursor = decodeCursor(value, idType);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+  });
+}
+
+export const pageQuerySchema = pageQuery('number');
+// Sessions have no serial id; they page on the hashed session id clients already see
+export const sessionPageQuerySchema = pageQuery('string');
+
+// Paged created_at columns are stored to the millisecond, the precision cursors carry, so
+// the raw columns compare exactly and the (user_id, created_at, id) indexes serve the order
+export function afterCursor(columns: PagedColumns, cursor?: PageCursor): SQL | undefined {
+  if (!cursor) return undefined;
+  return sql`(${columns.createdAt}, ${columns.id}) < (${cursor.createdAt.toISOString()}::timestamp, ${cursor.id})`;
+}
+
+export function pageOrder(columns: PagedColumns): SQL[] {
+  return [desc(columns.createdAt), desc(columns.id)];
+}
+
+// Callers fetch limit + 1 rows; the extra one only tells us there is another page
+export function toPage<T extends PageCursor>(rows: T[], limit: number): Page<T> {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return { items, nextCursor: rows.length > limit && last ? encodeCursor(last) : null };
+}
+
+// For internal callers that genuinely need every row, such as account exports
+export async function collectAllPages<T>(fetchPage: (page: PageRequest) => Promise<Page<T>>): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: PageCursor | undefined;
+  do {
+    const page = await fetchPage({ limit: MAX_PAGE_SIZE, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor ? decodeCursor(page.nextCursor) : undefined;
+  } while (cursor);
+  return items;
+}
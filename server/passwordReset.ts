@@ -0,0 +1,87 @@
+import { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { mailer, appUrl } from "./mailer";
+import { generateToken, hashToken } from "./tokens";
+import { insertUserSchema } from "@shared/schema";
+
+const PASSWORD_RESET = "password-reset";
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const resetRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetConfirmSchema = z.object({
+  token: z.string().min(1),
+  password: insertUserSchema.shape.password,
+});
+
+async function sendResetLink(email: string) {
+  const user = await storage.getUserByEmail(email);
+  if (!user) return;
+
+  // Only the newest link works
+  await storage.invalidateAuthTokens(user.id, PASSWORD_RESET);
+
+  const token = generateToken();
+  await storage.createAuthToken(
+    user.id,
+    PASSWORD_RESET,
+    hashToken(token),
+    new Date(Date.now() + RESET_TOKEN_TTL_MS)
+  );
+
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Hi ${user.username},\n\nUse the link below to choose a new password. It expires in one hour and can only be used once.\n\n${link}\n\nIf you didn't ask for a reset, you can ignore this email.`,
+  });
+}
+
+export function setupPasswordReset(app: Express) {
+  app.post("/api/password-reset/request", async (req, res, next) => {
+    try {
+      const parsed = resetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A valid email is required" });
+      }
+
+      // Same response whether or not the email is registered, so accounts can't be enumerated.
+      // The lookup and mail happen after responding so the timing doesn't give it away either.
+      res.status(202).json({ message: "If that email is registered, a reset link has been sent" });
+
+      sendResetLink(parsed.data.email).catch((error) => {
+        console.error("Error sending password reset email:", error);
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const parsed = resetConfirmSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid reset request", details: parsed.error.errors });
+      }
+
+      const token = await storage.consumeAuthToken(PASSWORD_RESET, hashToken(parsed.data.token));
+      if (!token) {
+        return res.status(400).json({ error: "Invalid or expired reset token" });
+      }
+
+      await storage.updateUserPassword(token.userId, await hashPassword(parsed.data.password));
+
+      // Sign the account out everywhere except, if it's theirs, the session making this request
+      const keepSession = req.user?.id === token.userId ? req.sessionID : undefined;
+      await storage.destroyUserSessions(token.userId, keepSession);
+
+      res.json({ message: "Password has been reset" });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
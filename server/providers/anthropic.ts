@@ -0,0 +1,93 @@
+import { ChatMessage, CompletionRequest, ProviderAdapter, ProviderConfig, ProviderError } from './types';
+import { requestJson, requestEventStream, readEventStream } from './http';
+
+const PROVIDER = 'anthropic';
+
+// Messages API; system prompts travel in their own field rather than as a message
+export function createAnthropicAdapter(config: ProviderConfig): ProviderAdapter {
+  const headers = {
+    'x-api-key': config.apiKey || '',
+    'anthropic-version': '2023-06-01',
+    'Content-Type': 'application/json'
+  };
+
+  // Image blocks go before the text that refers to them
+  const toWireMessage = ({ role, content, images }: ChatMessage) => ({
+    role,
+    content: images?.length
+      ? [
+          ...images.map((image) => ({
+            type: 'image',
+            source: { type: 'base64', media_type: image.mimeType, data: image.data }
+          })),
+          { type: 'text', text: content }
+        ]
+      : content
+  });
+
+  const buildBody = (request: CompletionRequest, stream: boolean) => {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n');
+
+    return JSON.stringify({
+      model: request.modelId,
+      ...(system && { system }),
+      messages: request.messages.filter((message) => message.role !== 'system').map(toWireMessage),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      ...(stream && { stream: true })
+    });
+  };
+
+  return {
+    name: PROVIDER,
+    supportsImages: true,
+
+    async complete(request) {
+      const data = await requestJson(PROVIDER, `${config.baseUrl}/messages`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, false),
+        signal: request.signal
+      });
+      return (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    },
+
+    async stream(request, onToken) {
+      const body = await requestEventStream(PROVIDER, `${config.baseUrl}/messages`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, true),
+        signal: request.signal
+      });
+
+      let result = '';
+      await readEventStream(body, ({ event, data }) => {
+        if (event === 'error') {
+          const { error } = JSON.parse(data);
+          // Overloaded errors arrive mid-stream rather than as an HTTP status
+          throw new ProviderError(
+            PROVIDER,
+            `Generation failed: ${error?.message || data}`,
+            undefined,
+            error?.type === 'overloaded_error'
+          );
+        }
+        if (event === 'content_block_delta') {
+          const text = JSON.parse(data).delta?.text || '';
+          if (text) {
+            result += text;
+            onToken(text);
+          }
+        }
+      });
+      return result;
+    }
+  };
+}
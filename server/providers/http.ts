@@ -0,0 +1,125 @@
+import fetch, { type RequestInit, type Response } from 'node-fetch';
+import { ChatMessage, ProviderError } from './types';
+
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+// Map a failed HTTP response onto a ProviderError with a readable message
+async function toProviderError(provider: string, response: Response): Promise<ProviderError> {
+  const errorText = await response.text().catch(() => response.statusText);
+
+  let message = `${provider} API request failed (${response.status}): ${errorText}`;
+  if (response.status === 401 || response.status === 403) {
+    message = `${provider} API rejected the credentials (${response.status})`;
+  } else if (response.status === 404) {
+    message = `${provider} API could not find the requested model (404): ${errorText}`;
+  }
+
+  return new ProviderError(provider, message, response.status, RETRYABLE_STATUSES.has(response.status));
+}
+
+async function send(provider: string, url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    // Aborts are left for the caller to interpret (timeout vs. client disconnect)
+    if (error.name === 'AbortError') {
+      throw error;
+    }
+    throw new ProviderError(provider, `${provider} API is unreachable: ${error.message}`, undefined, true);
+  }
+
+  if (!response.ok) {
+    throw await toProviderError(provider, response);
+  }
+  return response;
+}
+
+export async function requestJson(provider: string, url: string, init: RequestInit): Promise<any> {
+  const response = await send(provider, url, init);
+  return response.json();
+}
+
+export async function requestEventStream(
+  provider: string,
+  url: string,
+  init: RequestInit
+): Promise<NodeJS.ReadableStream> {
+  const response = await send(provider, url, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), 'Accept': 'text/event-stream' }
+  });
+  return response.body;
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parse a server-sent event stream, calling onEvent once per dispatched event
+export async function readEventStream(
+  body: NodeJS.ReadableStream,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = 'message';
+  let dataLines: string[] = [];
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        onEvent({ event: eventName, data: dataLines.join('\n') });
+      }
+      eventName = 'message';
+      dataLines = [];
+    } else if (line.startsWith('event:')) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  };
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk as Buffer, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(processLine);
+  }
+
+  processLine(buffer);
+  processLine('');
+}
+
+// Completion-style providers take a single prompt. A lone user message is sent verbatim;
+// longer histories are rendered as a transcript ending with the assistant's turn.
+export function flattenMessages(messages: ChatMessage[]): string {
+  const system = messages.filter((message) => message.role === 'system');
+  const turns = messages.filter((message) => message.role !== 'system');
+
+  if (system.length === 0 && turns.length === 1 && turns[0].role === 'user') {
+    return turns[0].content;
+  }
+
+  const transcript = turns
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+  const preamble = system.map((message) => message.content).join('\n');
+
+  return `${preamble ? `${preamble}\n\n` : ''}${transcript}\n\nAssistant:`;
+}
+
+export function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+      return;
+    }
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+    }, { once: true });
+  });
+}
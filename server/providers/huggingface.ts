@@ -0,0 +1,63 @@
+import { CompletionRequest, ProviderAdapter, ProviderConfig, ProviderError } from './types';
+import { requestJson, requestEventStream, readEventStream, flattenMessages } from './http';
+
+const PROVIDER = 'huggingface';
+
+// Text Generation Inference API, as served by the Hugging Face Inference API
+export function createHuggingFaceAdapter(config: ProviderConfig): ProviderAdapter {
+  const headers = {
+    'Authorization': `Bearer ${config.apiKey}`,
+    'Content-Type': 'application/json'
+  };
+
+  const buildBody = (request: CompletionRequest, stream: boolean) => JSON.stringify({
+    inputs: flattenMessages(request.messages),
+    parameters: {
+      max_new_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      return_full_text: false
+    },
+    ...(stream && { stream: true })
+  });
+
+  return {
+    name: PROVIDER,
+
+    async complete(request) {
+      const data = await requestJson(PROVIDER, `${config.baseUrl}/models/${request.modelId}`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, false),
+        signal: request.signal
+      });
+
+      // The hosted API wraps results in an array; self-hosted TGI returns a bare object
+      const result = Array.isArray(data) ? data[0] : data;
+      return result?.generated_text || '';
+    },
+
+    async stream(request, onToken) {
+      const body = await requestEventStream(PROVIDER, `${config.baseUrl}/models/${request.modelId}`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, true),
+        signal: request.signal
+      });
+
+      let result = '';
+      await readEventStream(body, ({ data }) => {
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          throw new ProviderError(PROVIDER, `Generation failed: ${chunk.error}`);
+        }
+        const text = chunk.token?.special ? '' : chunk.token?.text || '';
+        if (text) {
+          result += text;
+          onToken(text);
+        }
+      });
+      return result;
+    }
+  };
+}
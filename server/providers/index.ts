@@ -0,0 +1,139 @@
+import { ChatMessage, ProviderAdapter, ProviderError } from './types';
+import { createReplicateAdapter } from './replicate';
+import { createHuggingFaceAdapter } from './huggingface';
+import { createTogetherAdapter } from './together';
+import { createOpenAIAdapter } from './openai';
+import { createAnthropicAdapter } from './anthropic';
+import { createMockAdapter } from './mock';
+
+export * from './types';
+
+// Base URLs can be overridden, e.g. to point at a local stand-in server
+export const providers: Record<string, ProviderAdapter> = {
+  replicate: createReplicateAdapter({
+    baseUrl: process.env.REPLICATE_API_URL || 'https://api.replicate.com/v1',
+    apiKey: process.env.REPLICATE_API_KEY
+  }),
+  huggingface: createHuggingFaceAdapter({
+    baseUrl: process.env.HUGGINGFACE_API_URL || 'https://api-inference.huggingface.co',
+    apiKey: process.env.HUGGINGFACE_API_KEY
+  }),
+  together: createTogetherAdapter({
+    baseUrl: process.env.TOGETHER_API_URL || 'https://api.together.xyz',
+    apiKey: process.env.TOGETHER_API_KEY
+  }),
+  openai: createOpenAIAdapter({
+    baseUrl: process.env.OPENAI_API_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY
+  }),
+  anthropic: createAnthropicAdapter({
+    baseUrl: process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com/v1',
+    apiKey: process.env.ANTHROPIC_API_KEY
+  }),
+  // Same wire format as OpenAI, but Mistral's chat models don't take images
+  mistral: {
+    ...createOpenAIAdapter({
+      baseUrl: process.env.MISTRAL_API_URL || 'https://api.mistral.ai/v1',
+      apiKey: process.env.MISTRAL_API_KEY
+    }, 'mistral'),
+    supportsImages: false
+  },
+  // Canned output for local development and tests; never calls out
+  mock: createMockAdapter()
+};
+
+export const DEFAULT_TOP_P = 0.95;
+
+export interface ModelTarget {
+  provider: string;
+  modelId: string;
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  signal?: AbortSignal;
+  // When set, output is streamed and the timeout only fires if the provider goes quiet
+  onToken?: (text: string) => void;
+  timeoutMs?: number;
+}
+
+export function getProvider(name: string): ProviderAdapter {
+  const adapter = providers[name];
+  if (!adapter) {
+    throw new ProviderError(name, `Unsupported provider: ${name}`);
+  }
+  return adapter;
+}
+
+// Run a completion against a model, applying the timeout and empty-output checks every
+// caller needs. Providers without streaming support deliver their output as one token.
+export async function runCompletion(
+  target: ModelTarget,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<string> {
+  const adapter = getProvider(target.provider);
+  if (!adapter.supportsImages && messages.some((message) => message.images?.length)) {
+    throw new ProviderError(target.provider, `Provider ${target.provider} does not accept image input`);
+  }
+  const timeoutMs = options.timeoutMs ?? 30000;
+
+  const controller = new AbortController();
+  options.signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+  let timedOut = false;
+  let timeoutId: NodeJS.Timeout | undefined;
+  const resetTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+
+  const request = {
+    modelId: target.modelId,
+    messages,
+    maxTokens: options.maxTokens ?? 1000,
+    temperature: options.temperature ?? 0.2,
+    topP: options.topP ?? DEFAULT_TOP_P,
+    signal: controller.signal
+  };
+
+  try {
+    resetTimeout();
+
+    let result: string;
+    if (options.onToken && adapter.stream) {
+      const onToken = options.onToken;
+      result = await adapter.stream(request, (text) => {
+        resetTimeout();
+        onToken(text);
+      });
+    } else {
+      result = await adapter.complete(request);
+      options.onToken?.(result);
+    }
+
+    if (!result || result.trim() === '') {
+      throw new ProviderError(target.provider, 'Empty response from AI model');
+    }
+    return result;
+  } catch (error: any) {
+    if (error.name === 'AbortError' && timedOut) {
+      throw new ProviderError(
+        target.provider,
+        `Request to ${target.modelId} timed out after ${timeoutMs / 1000} seconds`,
+        undefined,
+        true
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    // Release any connection an adapter left open after an error
+    controller.abort();
+  }
+}
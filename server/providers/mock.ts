@@ -0,0 +1,212 @@
+import { ProviderAdapter } from './types';
+
+// Canned layouts that used to stand in for real image-to-code generation. Select them
+// explicitly with an ai_models row whose provider is "mock"; they ignore the image.
+const templates: Record<string, string> = {
+  html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Generated Page from Image</title>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      max-width: 1200px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 20px 0;
+      border-bottom: 1px solid #eee;
+    }
+    .container {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
+      gap: 20px;
+      margin-top: 40px;
+    }
+    .card {
+      border: 1px solid #eee;
+      border-radius: 8px;
+      padding: 20px;
+      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <div class="logo">
+      <h1>Website Title</h1>
+    </div>
+    <nav>
+      <ul style="display: flex; list-style: none; gap: 20px;">
+        <li><a href="#">Home</a></li>
+        <li><a href="#">About</a></li>
+        <li><a href="#">Services</a></li>
+        <li><a href="#">Contact</a></li>
+      </ul>
+    </nav>
+  </header>
+
+  <div class="hero" style="margin-top: 40px; text-align: center;">
+    <h2>Welcome to our website</h2>
+    <p>This layout was generated from your image</p>
+  </div>
+
+  <div class="container">
+    <div class="card">
+      <h3>Feature 1</h3>
+      <p>Description of feature 1 goes here.</p>
+    </div>
+    <div class="card">
+      <h3>Feature 2</h3>
+      <p>Description of feature 2 goes here.</p>
+    </div>
+    <div class="card">
+      <h3>Feature 3</h3>
+      <p>Description of feature 3 goes here.</p>
+    </div>
+  </div>
+</body>
+</html>`,
+
+  jsx: `import React from 'react';
+
+function GeneratedComponent() {
+  return (
+    <div className="container">
+      <header className="header">
+        <div className="logo">
+          <h1>Website Title</h1>
+        </div>
+        <nav>
+          <ul className="nav-links">
+            <li><a href="#">Home</a></li>
+            <li><a href="#">About</a></li>
+            <li><a href="#">Services</a></li>
+            <li><a href="#">Contact</a></li>
+          </ul>
+        </nav>
+      </header>
+
+      <div className="hero">
+        <h2>Welcome to our website</h2>
+        <p>This React component was generated from your image</p>
+      </div>
+
+      <div className="feature-grid">
+        <div className="feature-card">
+          <h3>Feature 1</h3>
+          <p>Description of feature 1 goes here.</p>
+        </div>
+        <div className="feature-card">
+          <h3>Feature 2</h3>
+          <p>Description of feature 2 goes here.</p>
+        </div>
+        <div className="feature-card">
+          <h3>Feature 3</h3>
+          <p>Description of feature 3 goes here.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default GeneratedComponent;`,
+
+  css: `/* Generated CSS from the uploaded image */
+body {
+  font-family: 'Arial', sans-serif;
+  line-height: 1.6;
+  color: #333;
+  margin: 0;
+  padding: 0;
+}
+
+.container {
+  max-width: 1200px;
+  margin: 0 auto;
+  padding: 20px;
+}
+
+header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 20px 0;
+  border-bottom: 1px solid #eee;
+}
+
+.logo h1 {
+  margin: 0;
+  color: #333;
+}
+
+.nav-links {
+  display: flex;
+  list-style: none;
+  gap: 20px;
+}
+
+.nav-links a {
+  text-decoration: none;
+  color: #555;
+  transition: color 0.3s ease;
+}
+
+.nav-links a:hover {
+  color: #007bff;
+}
+
+.hero {
+  text-align: center;
+  margin: 40px 0;
+}
+
+.feature-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
+  gap: 20px;
+}
+
+.feature-card {
+  border: 1px solid #eee;
+  border-radius: 8px;
+  padding: 20px;
+  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+}
+
+@media (max-width: 768px) {
+  header {
+    flex-direction: column;
+    text-align: center;
+  }
+  
+  .nav-links {
+    margin-top: 15px;
+  }
+  
+  .feature-grid {
+    grid-template-columns: 1fr;
+  }
+}`
+};
+
+// The target language is read from the "Target language:" line of the prompt
+export function createMockAdapter(): ProviderAdapter {
+  return {
+    name: 'mock',
+    supportsImages: true,
+
+    async complete(request) {
+      const prompt = request.messages.map((message) => message.content).join('\n');
+      const language = prompt.match(/^Target language: (\S+)/m)?.[1] ?? 'html';
+      return templates[language] ??
+        `// Generated code for ${language}\n// This is a placeholder for the actual image-to-code generation.`;
+    }
+  };
+}
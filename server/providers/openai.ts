@@ -0,0 +1,75 @@
+import { ChatMessage, CompletionRequest, ProviderAdapter, ProviderConfig, ProviderError } from './types';
+import { requestJson, requestEventStream, readEventStream } from './http';
+
+// Chat Completions API. Mistral exposes the same wire format, so it reuses this adapter
+// under its own name and base URL.
+export function createOpenAIAdapter(config: ProviderConfig, name = 'openai'): ProviderAdapter {
+  const headers = {
+    'Authorization': `Bearer ${config.apiKey}`,
+    'Content-Type': 'application/json'
+  };
+
+  // Images are inlined as data URLs alongside the message text
+  const toWireMessage = ({ role, content, images }: ChatMessage) => ({
+    role,
+    content: images?.length
+      ? [
+          { type: 'text', text: content },
+          ...images.map((image) => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+          }))
+        ]
+      : content
+  });
+
+  const buildBody = (request: CompletionRequest, stream: boolean) => JSON.stringify({
+    model: request.modelId,
+    messages: request.messages.map(toWireMessage),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    ...(stream && { stream: true })
+  });
+
+  return {
+    name,
+    supportsImages: true,
+
+    async complete(request) {
+      const data = await requestJson(name, `${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, false),
+        signal: request.signal
+      });
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async stream(request, onToken) {
+      const body = await requestEventStream(name, `${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, true),
+        signal: request.signal
+      });
+
+      let result = '';
+      await readEventStream(body, ({ data }) => {
+        if (data === '[DONE]') {
+          return;
+        }
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          throw new ProviderError(name, `Generation failed: ${chunk.error.message || chunk.error}`);
+        }
+        const text = chunk.choices?.[0]?.delta?.content || '';
+        if (text) {
+          result += text;
+          onToken(text);
+        }
+      });
+      return result;
+    }
+  };
+}
@@ -0,0 +1,280 @@
+import { test, describe, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startStandIn, sendJson, sendEvents, type StandIn } from '../testing/standIn';
+import { ProviderError, type CompletionRequest } from './types';
+import { createOpenAIAdapter } from './openai';
+import { createAnthropicAdapter } from './anthropic';
+import { createHuggingFaceAdapter } from './huggingface';
+import { createTogetherAdapter } from './together';
+import { createReplicateAdapter } from './replicate';
+
+function completionRequest(overrides: Partial<CompletionRequest> = {}): CompletionRequest {
+  return {
+    modelId: 'test-model',
+    messages: [{ role: 'user', content: 'Write hello world' }],
+    maxTokens: 100,
+    temperature: 0.2,
+    topP: 0.95,
+    signal: new AbortController().signal,
+    ...overrides
+  };
+}
+
+async function collectTokens(
+  stream: (onToken: (text: string) => void) => Promise<string>
+): Promise<{ result: string; tokens: string[] }> {
+  const tokens: string[] = [];
+  const result = await stream((text) => tokens.push(text));
+  return { result, tokens };
+}
+
+const standIns: StandIn[] = [];
+async function standIn(...args: Parameters<typeof startStandIn>): Promise<StandIn> {
+  const server = await startStandIn(...args);
+  standIns.push(server);
+  return server;
+}
+
+after(() => Promise.all(standIns.map((server) => server.close())));
+
+describe('openai adapter', () => {
+  test('sends a chat completion and returns the message content', async () => {
+    const server = await standIn((_req, res) => sendJson(res, {
+      choices: [{ message: { content: 'console.log("hi")' } }]
+    }));
+    const adapter = createOpenAIAdapter({ baseUrl: server.url, apiKey: 'sk-test' });
+
+    const result = await adapter.complete(completionRequest());
+
+    assert.equal(result, 'console.log("hi")');
+    const [request] = server.requests;
+    assert.equal(request.path, '/chat/completions');
+    assert.equal(request.headers.authorization, 'Bearer sk-test');
+    assert.equal(request.body.model, 'test-model');
+    assert.equal(request.body.max_tokens, 100);
+    assert.deepEqual(request.body.messages, [{ role: 'user', content: 'Write hello world' }]);
+  });
+
+  test('streams delta content until [DONE]', async () => {
+    const server = await standIn((_req, res) => sendEvents(res, [
+      { data: JSON.stringify({ choices: [{ delta: { content: 'foo' } }] }) },
+      { data: JSON.stringify({ choices: [{ delta: {} }] }) },
+      { data: JSON.stringify({ choices: [{ delta: { content: 'bar' } }] }) },
+      { data: '[DONE]' }
+    ]));
+    const adapter = createOpenAIAdapter({ baseUrl: server.url, apiKey: 'sk-test' });
+
+    const { result, tokens } = await collectTokens((onToken) => adapter.stream!(completionRequest(), onToken));
+
+    assert.equal(result, 'foobar');
+    assert.deepEqual(tokens, ['foo', 'bar']);
+    assert.equal(server.requests[0].body.stream, true);
+  });
+
+  test('maps credential failures and marks server errors retryable', async () => {
+    let status = 401;
+    const server = await standIn((_req, res) => sendJson(res, { error: 'nope' }, status));
+    const adapter = createOpenAIAdapter({ baseUrl: server.url, apiKey: 'bad' });
+
+    await assert.rejects(adapter.complete(completionRequest()), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.status, 401);
+      assert.equal(error.retryable, false);
+      assert.match(error.message, /rejected the credentials/);
+      return true;
+    });
+
+    status = 503;
+    await assert.rejects(adapter.complete(completionRequest()), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+  });
+});
+
+describe('anthropic adapter', () => {
+  test('moves system prompts into their own field', async () => {
+    const server = await standIn((_req, res) => sendJson(res, {
+      content: [{ type: 'text', text: 'a' }, { type: 'tool_use' }, { type: 'text', text: 'b' }]
+    }));
+    const adapter = createAnthropicAdapter({ baseUrl: server.url, apiKey: 'key' });
+
+    const result = await adapter.complete(completionRequest({
+      messages: [
+        { role: 'system', content: 'Be terse' },
+        { role: 'user', content: 'Hi' }
+      ]
+    }));
+
+    assert.equal(result, 'ab');
+    const [request] = server.requests;
+    assert.equal(request.path, '/messages');
+    assert.equal(request.headers['x-api-key'], 'key');
+    assert.equal(request.body.system, 'Be terse');
+    assert.deepEqual(request.body.messages, [{ role: 'user', content: 'Hi' }]);
+  });
+
+  test('streams text deltas', async () => {
+    const server = await standIn((_req, res) => sendEvents(res, [
+      { event: 'message_start', data: '{}' },
+      { event: 'content_block_delta', data: JSON.stringify({ delta: { text: 'Hel' } }) },
+      { event: 'content_block_delta', data: JSON.stringify({ delta: { text: 'lo' } }) },
+      { event: 'message_stop', data: '{}' }
+    ]));
+    const adapter = createAnthropicAdapter({ baseUrl: server.url, apiKey: 'key' });
+
+    const { result, tokens } = await collectTokens((onToken) => adapter.stream!(completionRequest(), onToken));
+
+    assert.equal(result, 'Hello');
+    assert.deepEqual(tokens, ['Hel', 'lo']);
+  });
+
+  test('treats a mid-stream overloaded error as retryable', async () => {
+    const server = await standIn((_req, res) => sendEvents(res, [
+      { event: 'error', data: JSON.stringify({ error: { type: 'overloaded_error', message: 'Overloaded' } }) }
+    ]));
+    const adapter = createAnthropicAdapter({ baseUrl: server.url, apiKey: 'key' });
+
+    await assert.rejects(adapter.stream!(completionRequest(), () => {}), (error: unknown) => {
+      assert.ok(error instanceof ProviderError);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+  });
+});
+
+describe('huggingface adapter', () => {
+  test('accepts both the hosted array response and a bare TGI object', async () => {
+    let hosted = true;
+    const server = await standIn((_req, res) => sendJson(res, hosted
+      ? [{ generated_text: 'hosted' }]
+      : { generated_text: 'self-hosted' }));
+    const adapter = createHuggingFaceAdapter({ baseUrl: server.url, apiKey: 'hf' });
+
+    assert.equal(await adapter.complete(completionRequest()), 'hosted');
+    hosted = false;
+    assert.equal(await adapter.complete(completionRequest()), 'self-hosted');
+    assert.equal(server.requests[0].path, '/models/test-model');
+    assert.equal(server.requests[0].body.inputs, 'Write hello world');
+  });
+
+  test('skips special tokens when streaming', async () => {
+    const server = await standIn((_req, res) => sendEvents(res, [
+      { data: JSON.stringify({ token: { text: 'x = 1', special: false } }) },
+      { data: JSON.stringify({ token: { text: '</s>', special: true } }) }
+    ]));
+    const adapter = createHuggingFaceAdapter({ baseUrl: server.url, apiKey: 'hf' });
+
+    const { result } = await collectTokens((onToken) => adapter.stream!(completionRequest(), onToken));
+
+    assert.equal(result, 'x = 1');
+  });
+});
+
+describe('together adapter', () => {
+  test('returns the first choice and reports failed inferences', async () => {
+    let failed = false;
+    const server = await standIn((_req, res) => sendJson(res, failed
+      ? { status: 'failed', error: 'model crashed' }
+      : { output: { choices: [{ text: 'print(1)' }] } }));
+    const adapter = createTogetherAdapter({ baseUrl: server.url, apiKey: 'tg' });
+
+    assert.equal(await adapter.complete(completionRequest()), 'print(1)');
+    assert.equal(server.requests[0].path, '/inference');
+
+    failed = true;
+    await assert.rejects(adapter.complete(completionRequest()), /model crashed/);
+  });
+
+  test('streams choice text until [DONE]', async () => {
+    const server = await standIn((_req, res) => sendEvents(res, [
+      { data: JSON.stringify({ choices: [{ text: 'a' }] }) },
+      { data: JSON.stringify({ choices: [{ text: 'b' }] }) },
+      { data: '[DONE]' }
+    ]));
+    const adapter = createTogetherAdapter({ baseUrl: server.url, apiKey: 'tg' });
+
+    const { result } = await collectTokens((onToken) => adapter.stream!(completionRequest(), onToken));
+
+    assert.equal(result, 'ab');
+    assert.equal(server.requests[0].body.stream_tokens, true);
+  });
+});
+
+describe('replicate adapter', () => {
+  // Predictions settle on the second poll; `stream` controls whether a stream URL is offered
+  async function replicateStandIn(options: { stream: boolean }) {
+    let polls = 0;
+    const server = await standIn((req, res) => {
+      const urls = {
+        get: `${server.url}/predictions/p1`,
+        cancel: `${server.url}/predictions/p1/cancel`,
+        ...(options.stream && { stream: `${server.url}/stream/p1` })
+      };
+      if (req.method === 'POST' && req.path.endsWith('/predictions')) {
+        return sendJson(res, { id: 'p1', status: 'starting', urls }, 201);
+      }
+      if (req.path === '/predictions/p1') {
+        polls += 1;
+        return sendJson(res, polls < 2
+          ? { id: 'p1', status: 'processing', urls }
+          : { id: 'p1', status: 'succeeded', output: ['def ', 'f(): pass'], urls });
+      }
+      if (req.path === '/stream/p1') {
+        return sendEvents(res, [
+          { event: 'output', data: 'def ' },
+          { event: 'output', data: 'f(): pass' },
+          { event: 'done', data: '{}' }
+        ]);
+      }
+      sendJson(res, { detail: 'not found' }, 404);
+    });
+    return server;
+  }
+
+  test('polls a prediction until it succeeds', async () => {
+    const server = await replicateStandIn({ stream: false });
+    const adapter = createReplicateAdapter({ baseUrl: server.url, apiKey: 'r8', pollIntervalMs: 1 });
+
+    const result = await adapter.complete(completionRequest({ modelId: 'meta/codellama' }));
+
+    assert.equal(result, 'def f(): pass');
+    assert.equal(server.requests[0].path, '/models/meta/codellama/predictions');
+    assert.equal(server.requests[0].headers.authorization, 'Token r8');
+  });
+
+  test('targets a pinned version through /predictions', async () => {
+    const server = await replicateStandIn({ stream: false });
+    const adapter = createReplicateAdapter({ baseUrl: server.url, apiKey: 'r8', pollIntervalMs: 1 });
+
+    await adapter.complete(completionRequest({ modelId: 'meta/codellama:abc123' }));
+
+    assert.equal(server.requests[0].path, '/predictions');
+    assert.equal(server.requests[0].body.version, 'abc123');
+  });
+
+  test('streams output events from the stream URL', async () => {
+    const server = await replicateStandIn({ stream: true });
+    const adapter = createReplicateAdapter({ baseUrl: server.url, apiKey: 'r8', pollIntervalMs: 1 });
+
+    const { result, tokens } = await collectTokens((onToken) =>
+      adapter.stream!(completionRequest({ modelId: 'meta/codellama' }), onToken));
+
+    assert.equal(result, 'def f(): pass');
+    assert.deepEqual(tokens, ['def ', 'f(): pass']);
+  });
+
+  test('falls back to polling when the model offers no stream URL', async () => {
+    const server = await replicateStandIn({ stream: false });
+    const adapter = createReplicateAdapter({ baseUrl: server.url, apiKey: 'r8', pollIntervalMs: 1 });
+
+    const { result, tokens } = await collectTokens((onToken) =>
+      adapter.stream!(completionRequest({ modelId: 'meta/codellama' }), onToken));
+
+    assert.equal(result, 'def f(): pass');
+    assert.deepEqual(tokens, ['def f(): pass']);
+    // The prediction created for streaming is reused rather than started twice
+    assert.equal(server.requests.filter((req) => req.method === 'POST').length, 1);
+  });
+});
@@ -0,0 +1,119 @@
+import { CompletionRequest, ProviderAdapter, ProviderConfig, ProviderError } from './types';
+import { requestJson, requestEventStream, readEventStream, flattenMessages, delay } from './http';
+
+const PROVIDER = 'replicate';
+
+interface Prediction {
+  id: string;
+  status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+  output?: string | string[] | null;
+  error?: string | null;
+  urls: { get: string; cancel: string; stream?: string };
+}
+
+interface ReplicateConfig extends ProviderConfig {
+  pollIntervalMs?: number;
+}
+
+// Replicate predictions are asynchronous: we create one, then poll (or stream) until it settles
+export function createReplicateAdapter(config: ReplicateConfig): ProviderAdapter {
+  const pollIntervalMs = config.pollIntervalMs ?? 1000;
+  const headers = {
+    'Authorization': `Token ${config.apiKey}`,
+    'Content-Type': 'application/json'
+  };
+
+  // "owner/name" targets the model's latest version; "owner/name:version" pins one
+  const createPrediction = (request: CompletionRequest, stream: boolean): Promise<Prediction> => {
+    const [model, version] = request.modelId.split(':');
+    const input = {
+      prompt: flattenMessages(request.messages),
+      max_new_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP
+    };
+    const url = version
+      ? `${config.baseUrl}/predictions`
+      : `${config.baseUrl}/models/${model}/predictions`;
+
+    return requestJson(PROVIDER, url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ ...(version && { version }), input, ...(stream && { stream: true }) }),
+      signal: request.signal
+    });
+  };
+
+  // Best effort: stop paying for a prediction nobody is waiting for
+  const cancelPrediction = (prediction: Prediction) => {
+    requestJson(PROVIDER, prediction.urls.cancel, { method: 'POST', headers }).catch((error) => {
+      console.error(`Failed to cancel Replicate prediction ${prediction.id}:`, error);
+    });
+  };
+
+  const outputText = (output: Prediction['output']): string =>
+    Array.isArray(output) ? output.join('') : output || '';
+
+  // Poll a prediction until it settles and return its output
+  const waitForPrediction = async (prediction: Prediction, request: CompletionRequest): Promise<string> => {
+    try {
+      while (prediction.status === 'starting' || prediction.status === 'processing') {
+        await delay(pollIntervalMs, request.signal);
+        prediction = await requestJson(PROVIDER, prediction.urls.get, {
+          headers,
+          signal: request.signal
+        });
+      }
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        cancelPrediction(prediction);
+      }
+      throw error;
+    }
+
+    if (prediction.status !== 'succeeded') {
+      throw new ProviderError(PROVIDER, `Prediction ${prediction.status}: ${prediction.error || 'no details'}`);
+    }
+    return outputText(prediction.output);
+  };
+
+  return {
+    name: PROVIDER,
+
+    async complete(request) {
+      return waitForPrediction(await createPrediction(request, false), request);
+    },
+
+    async stream(request, onToken) {
+      const prediction = await createPrediction(request, true);
+      // Models without streaming support still produce the prediction; deliver it as one token
+      if (!prediction.urls.stream) {
+        const output = await waitForPrediction(prediction, request);
+        onToken(output);
+        return output;
+      }
+
+      let result = '';
+      try {
+        const body = await requestEventStream(PROVIDER, prediction.urls.stream, {
+          headers,
+          signal: request.signal
+        });
+        await readEventStream(body, ({ event, data }) => {
+          if (event === 'output') {
+            result += data;
+            onToken(data);
+          } else if (event === 'error') {
+            throw new ProviderError(PROVIDER, `Prediction failed: ${data}`);
+          }
+        });
+      } catch (error: any) {
+        if (error.name === 'AbortError') {
+          cancelPrediction(prediction);
+        }
+        throw error;
+      }
+      return result;
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { ProviderError } from './types';
+import { delay } from './http';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  maxAttempts: Number(process.env.AI_RETRY_MAX_ATTEMPTS) || 3,
+  baseDelayMs: Number(process.env.AI_RETRY_BASE_DELAY_MS) || 500,
+  maxDelayMs: Number(process.env.AI_RETRY_MAX_DELAY_MS) || 8000
+};
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof ProviderError && error.retryable;
+}
+
+// Exponential backoff with full jitter: a random delay up to base * 2^(attempt - 1), capped
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+// Call `run` until it succeeds, the error isn't retryable, or attempts run out
+export async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  options: RetryOptions = defaultRetryOptions,
+  shouldRetry: (error: unknown) => boolean = isRetryable
+): Promise<T> {
+  const signal = options.signal ?? new AbortController().signal;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || signal.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      await delay(backoffDelay(attempt, options), signal);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { CompletionRequest, ProviderAdapter, ProviderConfig, ProviderError } from './types';
+import { requestJson, requestEventStream, readEventStream, flattenMessages } from './http';
+
+const PROVIDER = 'together';
+
+export function createTogetherAdapter(config: ProviderConfig): ProviderAdapter {
+  const headers = {
+    'Authorization': `Bearer ${config.apiKey}`,
+    'Content-Type': 'application/json'
+  };
+
+  const buildBody = (request: CompletionRequest, stream: boolean) => JSON.stringify({
+    model: request.modelId,
+    prompt: flattenMessages(request.messages),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    ...(stream && { stream_tokens: true })
+  });
+
+  return {
+    name: PROVIDER,
+
+    async complete(request) {
+      const data = await requestJson(PROVIDER, `${config.baseUrl}/inference`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, false),
+        signal: request.signal
+      });
+
+      if (data.status === 'failed' || data.error) {
+        throw new ProviderError(PROVIDER, `Inference failed: ${data.error || 'no details'}`);
+      }
+      return data.output?.choices?.[0]?.text ?? data.output?.text ?? '';
+    },
+
+    async stream(request, onToken) {
+      const body = await requestEventStream(PROVIDER, `${config.baseUrl}/inference`, {
+        method: 'POST',
+        headers,
+        body: buildBody(request, true),
+        signal: request.signal
+      });
+
+      let result = '';
+      await readEventStream(body, ({ data }) => {
+        if (data === '[DONE]') {
+          return;
+        }
+        const text = JSON.parse(data).choices?.[0]?.text || '';
+        if (text) {
+          result += text;
+          onToken(text);
+        }
+      });
+      return result;
+    }
+  };
+}
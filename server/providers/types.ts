@@ -0,0 +1,49 @@
+export interface ImageInput {
+  mimeType: string;
+  // Base64-encoded image bytes
+  data: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: ImageInput[];
+}
+
+export interface CompletionRequest {
+  modelId: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  signal: AbortSignal;
+}
+
+// Each adapter owns the wire format of one provider: request body, response parsing,
+// polling and error mapping all live behind this interface
+export interface ProviderAdapter {
+  readonly name: string;
+  // Whether messages may carry images; text-only adapters are never sent any
+  readonly supportsImages?: boolean;
+  complete(request: CompletionRequest): Promise<string>;
+  // Optional; callers fall back to complete() for providers that can't stream
+  stream?(request: CompletionRequest, onToken: (text: string) => void): Promise<string>;
+}
+
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+// Errors raised by adapters; `retryable` marks failures worth trying again
+export class ProviderError extends Error {
+  constructor(
+    public provider: string,
+    message: string,
+    public status?: number,
+    public retryable = false
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -7,8 +7,26 @@ import fs from "fs";
 import { generateCodeWithAI } from "../client/src/lib/ai-models";
 import { insertSnippetSchema, insertAIModelSchema, insertPlanSchema } from "@shared/schema";
 import { z } from "zod";
-import { setupAuth } from "./auth";
+import { setupAuth, requireAuth, requireRole, requireScope, toPublicUser } from "./auth";
+import { setupPasswordReset } from "./passwordReset";
+import { setupEmailVerification, meetsEmailRequirement } from "./emailVerification";
+import { setupTwoFactor } from "./twoFactor";
+import { setupOidc } from "./oidc";
 import aiRouter from './aiRoutes';
+import snippetRouter from './snippetRoutes';
+import usageRouter from './usageRoutes';
+import apiTokenRouter from './apiTokenRoutes';
+import adminRouter from './adminRoutes';
+import sessionRouter from './sessionRoutes';
+import accountRouter from './accountRoutes';
+import searchRouter from './searchRoutes';
+import sharedSnippetRouter from './sharedSnippetRoutes';
+import tagRouter from './tagRoutes';
+import collectionRouter from './collectionRoutes';
+import { requireEntitlement } from './entitlements';
+import { resolveModel, unsupportedModelMessage } from './models';
+import { pageQuerySchema } from './pagination';
+import { generateCodeFromImage } from './imageToCode';
 
 console.log("Subscription features disabled for development.");
 
@@ -30,19 +48,26 @@ const upload = multer({
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
-
-  // Middleware to check authentication
-  const requireAuth = (req: any, res: any, next: any) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    next();
-  };
+  setupPasswordReset(app);
+  setupEmailVerification(app);
+  setupTwoFactor(app);
+  setupOidc(app);
 
   // API Routes
   app.use('/api', aiRouter); // Use the new AI router
-
-  app.post("/api/image-to-code", upload.single("image"), async (req, res) => {
+  app.use('/api/snippets', requireScope('snippets'), snippetRouter);
+  app.use('/api/tags', requireScope('snippets'), tagRouter);
+  app.use('/api/collections', requireScope('snippets'), collectionRouter);
+  app.use('/api/shared', sharedSnippetRouter); // public reads; forking checks auth itself
+  app.use('/api/usage', requireScope('usage'), usageRouter);
+  app.use('/api/search', searchRouter); // checks scopes per content type
+  app.use('/api/tokens', requireAuth, apiTokenRouter);
+  app.use('/api/sessions', requireAuth, sessionRouter);
+  app.use('/api/account', requireAuth, accountRouter);
+  app.use('/api/admin', requireRole('admin'), adminRouter);
+
+  // Authenticate before accepting the upload; entitlements need the parsed multipart body
+  app.post("/api/image-to-code", requireScope("generate"), upload.single("image"), requireEntitlement(["image-to-code"]), async (req, res) => {
     try {
       // Check if file was uploaded
       if (!req.file) {
@@ -51,219 +76,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const language = req.body.language || "html";
 
-      // In a real application, we would:
-      // 1. Process the image using computer vision
-      // 2. Call an AI model to generate code from the image
-      // 3. Return the generated code
-
-      // For now, return sample code based on language
-      let generatedCode = "";
-      switch (language) {
-        case "html":
-          generatedCode = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Generated Page from Image</title>
-  <style>
-    body {
-      font-family: Arial, sans-serif;
-      max-width: 1200px;
-      margin: 0 auto;
-      padding: 20px;
-    }
-    header {
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-      padding: 20px 0;
-      border-bottom: 1px solid #eee;
-    }
-    .container {
-      display: grid;
-      grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
-      gap: 20px;
-      margin-top: 40px;
-    }
-    .card {
-      border: 1px solid #eee;
-      border-radius: 8px;
-      padding: 20px;
-      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-    }
-  </style>
-</head>
-<body>
-  <header>
-    <div class="logo">
-      <h1>Website Title</h1>
-    </div>
-    <nav>
-      <ul style="display: flex; list-style: none; gap: 20px;">
-        <li><a href="#">Home</a></li>
-        <li><a href="#">About</a></li>
-        <li><a href="#">Services</a></li>
-        <li><a href="#">Contact</a></li>
-      </ul>
-    </nav>
-  </header>
-
-  <div class="hero" style="margin-top: 40px; text-align: center;">
-    <h2>Welcome to our website</h2>
-    <p>This layout was generated from your image</p>
-  </div>
-
-  <div class="container">
-    <div class="card">
-      <h3>Feature 1</h3>
-      <p>Description of feature 1 goes here.</p>
-    </div>
-    <div class="card">
-      <h3>Feature 2</h3>
-      <p>Description of feature 2 goes here.</p>
-    </div>
-    <div class="card">
-      <h3>Feature 3</h3>
-      <p>Description of feature 3 goes here.</p>
-    </div>
-  </div>
-</body>
-</html>`;
-          break;
-
-        case "jsx":
-          generatedCode = `import React from 'react';
-
-function GeneratedComponent() {
-  return (
-    <div className="container">
-      <header className="header">
-        <div className="logo">
-          <h1>Website Title</h1>
-        </div>
-        <nav>
-          <ul className="nav-links">
-            <li><a href="#">Home</a></li>
-            <li><a href="#">About</a></li>
-            <li><a href="#">Services</a></li>
-            <li><a href="#">Contact</a></li>
-          </ul>
-        </nav>
-      </header>
-
-      <div className="hero">
-        <h2>Welcome to our website</h2>
-        <p>This React component was generated from your image</p>
-      </div>
-
-      <div className="feature-grid">
-        <div className="feature-card">
-          <h3>Feature 1</h3>
-          <p>Description of feature 1 goes here.</p>
-        </div>
-        <div className="feature-card">
-          <h3>Feature 2</h3>
-          <p>Description of feature 2 goes here.</p>
-        </div>
-        <div className="feature-card">
-          <h3>Feature 3</h3>
-          <p>Description of feature 3 goes here.</p>
-        </div>
-      </div>
-    </div>
-  );
-}
-
-export default GeneratedComponent;`;
-          break;
-
-        case "css":
-          generatedCode = `/* Generated CSS from the uploaded image */
-body {
-  font-family: 'Arial', sans-serif;
-  line-height: 1.6;
-  color: #333;
-  margin: 0;
-  padding: 0;
-}
-
-.container {
-  max-width: 1200px;
-  margin: 0 auto;
-  padding: 20px;
-}
-
-header {
-  display: flex;
-  justify-content: space-between;
-  align-items: center;
-  padding: 20px 0;
-  border-bottom: 1px solid #eee;
-}
-
-.logo h1 {
-  margin: 0;
-  color: #333;
-}
-
-.nav-links {
-  display: flex;
-  list-style: none;
-  gap: 20px;
-}
-
-.nav-links a {
-  text-decoration: none;
-  color: #555;
-  transition: color 0.3s ease;
-}
-
-.nav-links a:hover {
-  color: #007bff;
-}
-
-.hero {
-  text-align: center;
-  margin: 40px 0;
-}
-
-.feature-grid {
-  display: grid;
-  grid-template-columns: repeat(auto-fill, minmax(300px, 1fr));
-  gap: 20px;
-}
-
-.feature-card {
-  border: 1px solid #eee;
-  border-radius: 8px;
-  padding: 20px;
-  box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-}
-
-@media (max-width: 768px) {
-  header {
-    flex-direction: column;
-    text-align: center;
-  }
-  
-  .nav-links {
-    margin-top: 15px;
-  }
-  
-  .feature-grid {
-    grid-template-columns: 1fr;
-  }
-}`;
-          break;
-
-        default:
-          generatedCode = `// Generated code for ${language}\n// This is a placeholder for the actual image-to-code generation.`;
+      const model = await resolveModel(req.body.model || undefined, ["image-to-code"]);
+      if (!model) {
+        return res.status(400).json({ message: unsupportedModelMessage(req.body.model) });
       }
 
+      const result = await generateCodeFromImage([model], {
+        image: req.file.buffer,
+        mimeType: req.file.mimetype,
+        language,
+        userId: req.user!.id,
+      });
+
       res.json({
-        code: generatedCode,
-        language: language
+        code: result.text,
+        language: language,
+        model: result.model.modelId,
+        attempts: result.attempts
       });
     } catch (error) {
       console.error("Error generating code from image:", error);
@@ -274,14 +103,19 @@ header {
   // User routes
   app.get("/api/user", requireAuth, (req, res) => {
     // User is already added to request by Passport
-    res.json({ user: req.user });
+    res.json({ user: toPublicUser(req.user!) });
   });
 
   // AI Model routes
   app.get("/api/ai-models", async (req, res) => {
     try {
-      const models = await storage.getAllAIModels();
-      res.json(models);
+      const parsed = pageQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid pagination query", details: parsed.error.errors });
+      }
+
+      const page = await storage.getAllAIModels(parsed.data);
+      res.json(page);
     } catch (error) {
       console.error("Error fetching AI models:", error);
       res.status(500).json({ error: "Failed to fetch AI models" });
@@ -289,13 +123,52 @@ header {
   });
 
   // Initialize predefined AI models
-  app.post("/api/init-models", async (req, res) => {
+  app.post("/api/init-models", requireRole("admin"), async (req, res) => {
     try {
       // Check if models already exist
-      const existingModels = await storage.getAllAIModels();
+      const existingModels = await storage.getAllAIModels({ limit: 1 });
       
-      if (existingModels.length === 0) {
+      if (existingModels.items.length === 0) {
         // Define default models
+        await storage.createAIModel(insertAIModelSchema.parse({
+          name: "Code Llama",
+          provider: "replicate",
+          modelId: "meta/codellama-34b-instruct",
+          description: "Meta's Code Llama 34B Instruct hosted on Replicate",
+          maxTokens: 1000,
+          temperature: 0.2,
+          tags: ["code", "free"],
+          type: "code",
+          isDefault: true,
+          requiresSubscription: false,
+        }));
+
+        await storage.createAIModel(insertAIModelSchema.parse({
+          name: "StarCoder",
+          provider: "huggingface",
+          modelId: "bigcode/starcoder",
+          description: "BigCode's StarCoder via the Hugging Face Inference API",
+          maxTokens: 1000,
+          temperature: 0.2,
+          tags: ["code", "free"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: false,
+        }));
+
+        await storage.createAIModel(insertAIModelSchema.parse({
+          name: "WizardCoder",
+          provider: "together",
+          modelId: "WizardLM/WizardCoder-Python-34B-V1.0",
+          description: "WizardCoder Python 34B hosted on Together",
+          maxTokens: 1000,
+          temperature: 0.2,
+          tags: ["code"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: false,
+        }));
+
         await storage.createAIModel(insertAIModelSchema.parse({
           name: "GPT-4o",
           provider: "openai",
@@ -304,6 +177,9 @@ header {
           maxTokens: 4000,
           temperature: 0.7,
           tags: ["general", "code", "premium"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: true,
         }));
         
         await storage.createAIModel(insertAIModelSchema.parse({
@@ -314,6 +190,9 @@ header {
           maxTokens: 4000,
           temperature: 0.7,
           tags: ["general", "code", "premium"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: true,
         }));
         
         await storage.createAIModel(insertAIModelSchema.parse({
@@ -324,6 +203,9 @@ header {
           maxTokens: 4000,
           temperature: 0.7,
           tags: ["general", "code"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: false,
         }));
         
         await storage.createAIModel(insertAIModelSchema.parse({
@@ -334,6 +216,9 @@ header {
           maxTokens: 4000,
           temperature: 0.7,
           tags: ["general", "code"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: false,
         }));
         
         await storage.createAIModel(insertAIModelSchema.parse({
@@ -344,6 +229,48 @@ header {
           maxTokens: 4000,
           temperature: 0.7,
           tags: ["general", "code", "free"],
+          type: "code",
+          isDefault: false,
+          requiresSubscription: false,
+        }));
+        
+        await storage.createAIModel(insertAIModelSchema.parse({
+          name: "Claude 3.5 Sonnet Vision",
+          provider: "anthropic",
+          modelId: "claude-3-5-sonnet-20240620",
+          description: "Turns screenshots and mockups into code with Claude 3.5 Sonnet",
+          maxTokens: 4000,
+          temperature: 0.2,
+          tags: ["vision", "code"],
+          type: "image-to-code",
+          isDefault: true,
+          requiresSubscription: false,
+        }));
+
+        await storage.createAIModel(insertAIModelSchema.parse({
+          name: "GPT-4o mini Vision",
+          provider: "openai",
+          modelId: "gpt-4o-mini",
+          description: "Turns screenshots and mockups into code with GPT-4o mini",
+          maxTokens: 4000,
+          temperature: 0.2,
+          tags: ["vision", "code"],
+          type: "image-to-code",
+          isDefault: false,
+          requiresSubscription: false,
+        }));
+
+        await storage.createAIModel(insertAIModelSchema.parse({
+          name: "Template Mock",
+          provider: "mock",
+          modelId: "mock-templates",
+          description: "Returns canned HTML, JSX or CSS layouts without calling a model",
+          maxTokens: 4000,
+          temperature: 0,
+          tags: ["mock"],
+          type: "image-to-code",
+          isDefault: false,
+          requiresSubscription: false,
         }));
         
         res.json({ message: "AI models initialized successfully" });
@@ -356,13 +283,28 @@ header {
     }
   });
 
+  app.get("/api/plans", async (req, res) => {
+    try {
+      const parsed = pageQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid pagination query", details: parsed.error.errors });
+      }
+
+      const page = await storage.getAllPlans(parsed.data);
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching plans:", error);
+      res.status(500).json({ error: "Failed to fetch plans" });
+    }
+  });
+
   // Add sample mock plans
-  app.post("/api/init-plans", async (req, res) => {
+  app.post("/api/init-plans", requireRole("admin"), async (req, res) => {
     try {
       // Check if plans already exist
-      const existingPlans = await storage.getAllPlans();
+      const existingPlans = await storage.getAllPlans({ limit: 1 });
       
-      if (existingPlans.length === 0) {
+      if (existingPlans.items.length === 0) {
         // Create plans without Stripe
         await storage.createPlan(insertPlanSchema.parse({
           name: "Basic",
@@ -398,6 +340,10 @@ header {
         return res.status(401).json({ error: "User not found" });
       }
       
+      if (!meetsEmailRequirement(user)) {
+        return res.status(403).json({ error: "Email verification required" });
+      }
+
       const { planId } = req.body;
       
       if (!planId) {
@@ -416,7 +362,7 @@ header {
       res.json({ 
         message: "Subscription updated successfully",
         user: {
-          ...user,
+          ...toPublicUser(user),
           isSubscribed: true
         }
       });
@@ -0,0 +1,78 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { storage, type SearchFilters } from './storage';
+import { hasScope } from './auth';
+
+const router = Router();
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  type: z.enum(['all', 'snippets', 'conversations']).optional().default('all'),
+  // Only snippets have a language, so filtering by one leaves conversations out
+  language: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20)
+});
+
+// API tokens only see the kinds of content their scopes cover
+const searchHandler: RequestHandler = async (req, res) => {
+  try {
+    if (!req.isAuthenticated()) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const parsed = searchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid search query', details: parsed.error.errors });
+      return;
+    }
+
+    const { q, type, language, from, to, limit } = parsed.data;
+    const requested: Array<'snippets' | 'conversations'> = type === 'all' ? ['snippets', 'conversations'] : [type];
+    const allowed = requested.filter((scope) => hasScope(req, scope));
+    if (allowed.length === 0) {
+      res.status(403).json({ error: `API token is missing the "${requested.join('" or "')}" scope` });
+      return;
+    }
+
+    const includeSnippets = allowed.includes('snippets');
+    const includeConversations = allowed.includes('conversations') && !language;
+
+    const userId = req.user.id;
+    const filters: SearchFilters = { query: q, language, from, to, limit };
+    const [snippets, conversations, languages, conversationCount] = await Promise.all([
+      includeSnippets ? storage.searchSnippets(userId, filters) : [],
+      includeConversations ? storage.searchConversations(userId, filters) : [],
+      includeSnippets ? storage.getSnippetLanguageFacets(userId, filters) : [],
+      includeConversations ? storage.countConversationMatches(userId, filters) : 0
+    ]);
+
+    // Both lists are ranked against the same query, so their ranks can be merged directly
+    const results = [
+      ...snippets.map((hit) => ({ type: 'snippet' as const, ...hit })),
+      ...conversations.map((hit) => ({ type: 'conversation' as const, ...hit }))
+    ]
+      .sort((a, b) => b.rank - a.rank || b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+
+    res.json({
+      results,
+      facets: {
+        types: {
+          snippet: languages.reduce((total, facet) => total + facet.count, 0),
+          conversation: conversationCount
+        },
+        languages
+      }
+    });
+  } catch (error) {
+    console.error('Error searching:', error);
+    res.status(500).json({ error: 'Failed to search' });
+  }
+};
+
+router.get('/', searchHandler);
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router, RequestHandler } from 'express';
+import { storage, type StoredSession } from './storage';
+import { destroyStoredSession } from './sessions';
+import { sessionPageQuerySchema } from './pagination';
+
+const router = Router();
+
+// Session ids double as the cookie secret, so clients only ever see a hash of them
+function toPublicSession({ sid, publicId, sess, expire }: StoredSession, currentSid: string) {
+  return {
+    id: publicId,
+    current: sid === currentSid,
+    createdAt: sess.meta ? new Date(sess.meta.createdAt) : null,
+    lastSeenAt: sess.meta ? new Date(sess.meta.lastSeenAt) : null,
+    ip: sess.meta?.ip ?? null,
+    userAgent: sess.meta?.userAgent ?? null,
+    expiresAt: expire
+  };
+}
+
+const listSessionsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = sessionPageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getUserSessions(req.user!.id, parsed.data);
+    res.json({ ...page, items: page.items.map((session) => toPublicSession(session, req.sessionID)) });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+};
+
+const revokeSessionHandler: RequestHandler = async (req, res) => {
+  try {
+    const session = await storage.getUserSession(req.user!.id, req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    // The current session goes through express-session, or the end of this response would save it again
+    if (session.sid === req.sessionID) {
+      req.session.destroy((err) => {
+        if (err) {
+          console.error('Error revoking session:', err);
+          res.status(500).json({ error: 'Failed to revoke session' });
+          return;
+        }
+        res.sendStatus(204);
+      });
+      return;
+    }
+
+    await destroyStoredSession(session.sid);
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+};
+
+// "Log out everywhere else": every session but the one making the request
+const revokeOtherSessionsHandler: RequestHandler = async (req, res) => {
+  try {
+    const revoked = await storage.destroyUserSessions(req.user!.id, req.sessionID);
+    res.json({ revoked });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+};
+
+router.get('/', listSessionsHandler);
+router.delete('/', revokeOtherSessionsHandler);
+router.delete('/:id', revokeSessionHandler);
+
+export default router;
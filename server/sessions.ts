@@ -0,0 +1,25 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+
+// Last-seen times are only this precise, so browsing doesn't rewrite the session on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Records when and where a session was used; call it right after req.login as well, since
+// login regenerates the session
+export function touchSession(req: Request, now = Date.now()) {
+  const meta = req.session.meta;
+  if (!meta) {
+    req.session.meta = { createdAt: now, lastSeenAt: now, ip: req.ip, userAgent: req.get("user-agent") };
+    return;
+  }
+  if (now - meta.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+    meta.lastSeenAt = now;
+    meta.ip = req.ip;
+  }
+}
+
+export function destroyStoredSession(sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    storage.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
@@ -0,0 +1,106 @@
+import { Router, RequestHandler } from 'express';
+import { storage } from './storage';
+import { requireScope } from './auth';
+import { pageQuerySchema } from './pagination';
+import type { Snippet } from '@shared/schema';
+
+// Read-only access to unlisted and public snippets by share slug; no login needed except to fork
+const router = Router();
+
+// Owner ids and row ids stay private; the slug is the only handle outsiders get
+async function toSharedSnippet(snippet: Snippet) {
+  const [author, forkedFrom] = await Promise.all([
+    storage.getUser(snippet.userId),
+    snippet.forkedFromId ? storage.getSnippet(snippet.forkedFromId) : undefined
+  ]);
+
+  return {
+    slug: snippet.shareSlug,
+    title: snippet.title,
+    code: snippet.code,
+    language: snippet.language,
+    visibility: snippet.visibility,
+    author: author?.username ?? null,
+    // Only link the origin if it is still shared itself
+    forkedFrom: forkedFrom && forkedFrom.visibility !== 'private' ? forkedFrom.shareSlug : null,
+    createdAt: snippet.createdAt
+  };
+}
+
+const listPublicSnippetsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getPublicSnippets(parsed.data);
+    res.json({ ...page, items: await Promise.all(page.items.map(toSharedSnippet)) });
+  } catch (error) {
+    console.error('Error fetching public snippets:', error);
+    res.status(500).json({ error: 'Failed to fetch public snippets' });
+  }
+};
+
+const getSharedSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const snippet = await storage.getSharedSnippet(req.params.slug);
+    if (!snippet) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    res.json(await toSharedSnippet(snippet));
+  } catch (error) {
+    console.error('Error fetching shared snippet:', error);
+    res.status(500).json({ error: 'Failed to fetch shared snippet' });
+  }
+};
+
+// Served as plain text with nosniff, so shared HTML or scripts are never rendered by the browser
+const getRawSharedSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const snippet = await storage.getSharedSnippet(req.params.slug);
+    if (!snippet) {
+      res.status(404).type('text/plain').send('Snippet not found');
+      return;
+    }
+
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.type('text/plain; charset=utf-8').send(snippet.code);
+  } catch (error) {
+    console.error('Error fetching shared snippet:', error);
+    res.status(500).type('text/plain').send('Failed to fetch shared snippet');
+  }
+};
+
+// Copies a shared snippet into the caller's account as a new private snippet
+const forkSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const original = await storage.getSharedSnippet(req.params.slug);
+    if (!original) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    const fork = await storage.createSnippet({
+      userId: req.user!.id,
+      title: original.title,
+      code: original.code,
+      language: original.language,
+      forkedFromId: original.id
+    });
+    res.status(201).json(fork);
+  } catch (error) {
+    console.error('Error forking snippet:', error);
+    res.status(500).json({ error: 'Failed to fork snippet' });
+  }
+};
+
+router.get('/', listPublicSnippetsHandler);
+router.get('/:slug', getSharedSnippetHandler);
+router.get('/:slug/raw', getRawSharedSnippetHandler);
+router.post('/:slug/fork', requireScope('snippets'), forkSnippetHandler);
+
+export default router;
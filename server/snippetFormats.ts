@@ -0,0 +1,350 @@
+import { z } from 'zod';
+import { unzipSync, zipSync, strToU8 } from 'fflate';
+import type { Snippet } from '@shared/schema';
+
+// Bulk import and export of snippets as a zip of source files, GitHub Gist JSON
+// or a VS Code `.code-snippets` file. Parsing only pulls out candidate
+// title/code/language triples; the caller validates each against the snippet schema.
+
+export const snippetFormats = ['zip', 'gist', 'vscode'] as const;
+export type SnippetFormat = typeof snippetFormats[number];
+
+export const MAX_IMPORT_ITEMS = 500;
+const MAX_ENTRY_BYTES = 1024 * 1024;
+// Zip entries may add up to no more than this once inflated
+const MAX_ARCHIVE_BYTES = 20 * 1024 * 1024;
+const FALLBACK_LANGUAGE = 'plaintext';
+
+export interface ImportCandidate {
+  // Where the item came from (zip path, gist filename, snippet key), for error reports
+  item: string;
+  title: string;
+  code: string;
+  language: string;
+}
+
+export interface ImportItemError {
+  item: string;
+  error: string;
+  details?: z.ZodIssue[];
+}
+
+export interface ParsedImport {
+  candidates: ImportCandidate[];
+  errors: ImportItemError[];
+}
+
+// Thrown when the upload as a whole is unreadable, as opposed to a single bad item
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+// The first extension is the one used on export
+const languageExtensions: Record<string, string[]> = {
+  javascript: ['js', 'mjs', 'cjs'],
+  typescript: ['ts', 'mts', 'cts'],
+  jsx: ['jsx'],
+  tsx: ['tsx'],
+  vue: ['vue'],
+  html: ['html', 'htm'],
+  css: ['css'],
+  scss: ['scss'],
+  json: ['json'],
+  yaml: ['yaml', 'yml'],
+  markdown: ['md', 'markdown'],
+  python: ['py'],
+  ruby: ['rb'],
+  go: ['go'],
+  rust: ['rs'],
+  java: ['java'],
+  kotlin: ['kt', 'kts'],
+  swift: ['swift'],
+  c: ['c', 'h'],
+  cpp: ['cpp', 'cc', 'cxx', 'hpp'],
+  csharp: ['cs'],
+  php: ['php'],
+  sql: ['sql'],
+  shell: ['sh', 'bash', 'zsh'],
+  plaintext: ['txt']
+};
+
+const extensionLanguages = new Map(
+  Object.entries(languageExtensions).flatMap(([language, extensions]) =>
+    extensions.map((extension) => [extension, language] as const)
+  )
+);
+
+// Gists name languages the way GitHub Linguist does, VS Code uses its own ids
+const gistLanguageAliases: Record<string, string> = {
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'text': FALLBACK_LANGUAGE
+};
+
+const vscodeLanguageAliases: Record<string, string> = {
+  javascriptreact: 'jsx',
+  typescriptreact: 'tsx',
+  shellscript: 'shell'
+};
+
+const vscodeScopes: Record<string, string> = Object.fromEntries(
+  Object.entries(vscodeLanguageAliases).map(([scope, language]) => [language, scope])
+);
+
+function extensionOf(filename: string): string | undefined {
+  const match = filename.match(/(?<=[^/])\.([^./]+)$/);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+export function languageForFilename(filename: string): string | undefined {
+  const extension = extensionOf(filename);
+  return extension ? extensionLanguages.get(extension) : undefined;
+}
+
+function extensionForLanguage(language: string): string {
+  return languageExtensions[language]?.[0] ?? 'txt';
+}
+
+// "utils/debounce.js" becomes "debounce"; dotfiles keep their name
+function titleFromFilename(filename: string): string {
+  const base = filename.split('/').pop() ?? filename;
+  return base.replace(/(?<=.)\.[^.]+$/, '');
+}
+
+function filenameFromTitle(title: string): string {
+  return title.replace(/[\\/:*?"<>|\x00-\x1f]/g, '-').trim() || 'snippet';
+}
+
+// Gives every exported snippet its own name, since titles are not unique
+function uniqueNames(names: string[], format: (name: string, n: number) => string): string[] {
+  const seen = new Set<string>();
+  return names.map((name) => {
+    let candidate = name;
+    for (let n = 2; seen.has(candidate.toLowerCase()); n++) {
+      candidate = format(name, n);
+    }
+    seen.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+// Zip
+
+// Editor and OS metadata that ends up in zips but was never a snippet
+function isIgnoredEntry(name: string): boolean {
+  return name.endsWith('/') || name.startsWith('__MACOSX/') || name.split('/').some((part) => part.startsWith('.'));
+}
+
+export function parseZip(data: Buffer, fallbackLanguage = FALLBACK_LANGUAGE): ParsedImport {
+  const errors: ImportItemError[] = [];
+  let entries: Record<string, Uint8Array>;
+  let entryCount = 0;
+  let totalBytes = 0;
+  try {
+    // Sizes are checked against the central directory before anything is inflated, so a zip
+    // bomb never expands: oversized entries are skipped, and too many or too much in all
+    // rejects the archive outright
+    entries = unzipSync(new Uint8Array(data), {
+      filter: (file) => {
+        if (isIgnoredEntry(file.name)) return false;
+        if (++entryCount > MAX_IMPORT_ITEMS) {
+          throw new ImportFormatError(`Imports are limited to ${MAX_IMPORT_ITEMS} snippets`);
+        }
+        if (file.compression !== 0 && file.compression !== 8) {
+          errors.push({ item: file.name, error: 'Unsupported compression method' });
+          return false;
+        }
+        if (file.originalSize > MAX_ENTRY_BYTES) {
+          errors.push({ item: file.name, error: 'File is too large' });
+          return false;
+        }
+        totalBytes += file.originalSize;
+        if (totalBytes > MAX_ARCHIVE_BYTES) {
+          throw new ImportFormatError(`Archive contents exceed ${MAX_ARCHIVE_BYTES / (1024 * 1024)}MB`);
+        }
+        return true;
+      }
+    });
+  } catch (error) {
+    if (error instanceof ImportFormatError) throw error;
+    throw new ImportFormatError('File is not a valid zip archive');
+  }
+
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  const candidates: ImportCandidate[] = [];
+  for (const [name, bytes] of Object.entries(entries)) {
+    let code: string;
+    try {
+      code = decoder.decode(bytes);
+    } catch {
+      errors.push({ item: name, error: 'File is not UTF-8 text' });
+      continue;
+    }
+    if (code.includes('\0')) {
+      errors.push({ item: name, error: 'File is not UTF-8 text' });
+      continue;
+    }
+
+    candidates.push({
+      item: name,
+      title: titleFromFilename(name),
+      code,
+      language: languageForFilename(name) ?? fallbackLanguage
+    });
+  }
+
+  return { candidates, errors };
+}
+
+export function toZip(snippets: Snippet[]): Buffer {
+  const names = uniqueNames(
+    snippets.map((snippet) => filenameFromTitle(snippet.title)),
+    (name, n) => `${name}-${n}`
+  );
+  const files = Object.fromEntries(
+    snippets.map((snippet, i) => [`${names[i]}.${extensionForLanguage(snippet.language)}`, strToU8(snippet.code)])
+  );
+  return Buffer.from(zipSync(files));
+}
+
+// GitHub Gist
+
+const gistFileSchema = z.object({
+  content: z.string().optional(),
+  language: z.string().nullish(),
+  truncated: z.boolean().optional()
+});
+
+const gistSchema = z.object({
+  id: z.string().optional(),
+  files: z.record(z.unknown())
+});
+
+// Accepts one gist or a list of them, either as returned by the GitHub API or as sent to create one
+const gistDocumentSchema = z.union([gistSchema, z.array(gistSchema)]);
+
+function languageForGistFile(filename: string, gistLanguage?: string | null): string {
+  const fromExtension = languageForFilename(filename);
+  if (fromExtension) return fromExtension;
+  if (!gistLanguage) return FALLBACK_LANGUAGE;
+  const name = gistLanguage.toLowerCase();
+  return gistLanguageAliases[name] ?? name;
+}
+
+export function parseGist(document: unknown): ParsedImport {
+  const parsed = gistDocumentSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new ImportFormatError('Expected a gist object with a "files" map, or a list of them');
+  }
+
+  const gists = Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+  const candidates: ImportCandidate[] = [];
+  const errors: ImportItemError[] = [];
+  gists.forEach((gist, index) => {
+    for (const [filename, value] of Object.entries(gist.files)) {
+      const item = gists.length > 1 ? `${gist.id ?? index}/${filename}` : filename;
+      const file = gistFileSchema.safeParse(value);
+      if (!file.success) {
+        errors.push({ item, error: 'Invalid gist file', details: file.error.errors });
+        continue;
+      }
+      // The API leaves large files out of list responses; they have to be fetched individually
+      if (file.data.truncated || file.data.content === undefined) {
+        errors.push({ item, error: 'Gist file content is missing or truncated' });
+        continue;
+      }
+
+      candidates.push({
+        item,
+        title: titleFromFilename(filename),
+        code: file.data.content,
+        language: languageForGistFile(filename, file.data.language)
+      });
+    }
+  });
+
+  return { candidates, errors };
+}
+
+// Matches the body of POST /gists, so the export can be sent to GitHub unchanged
+export function toGist(snippets: Snippet[], description: string) {
+  const names = uniqueNames(
+    snippets.map((snippet) => `${filenameFromTitle(snippet.title)}.${extensionForLanguage(snippet.language)}`),
+    (name, n) => name.replace(/(\.[^.]+)?$/, `-${n}$1`)
+  );
+  return {
+    description,
+    public: false,
+    files: Object.fromEntries(snippets.map((snippet, i) => [names[i], { content: snippet.code }]))
+  };
+}
+
+// VS Code snippets
+
+const vscodeSnippetSchema = z.object({
+  prefix: z.union([z.string(), z.array(z.string())]).optional(),
+  body: z.union([z.string(), z.array(z.string())]),
+  description: z.string().optional(),
+  scope: z.string().optional()
+});
+
+// VS Code treats "$" as the start of a tab stop; "\" escapes "$", "}" and itself
+function escapeSnippetBody(code: string): string {
+  return code.replace(/[\\$]/g, '\\$&');
+}
+
+function unescapeSnippetBody(body: string): string {
+  return body.replace(/\\([\\$}])/g, '$1');
+}
+
+function languageForScope(scope: string | undefined, fallbackLanguage: string): string {
+  // A snippet scoped to several languages is stored under the first one
+  const first = scope?.split(',')[0].trim().toLowerCase();
+  if (!first) return fallbackLanguage;
+  return vscodeLanguageAliases[first] ?? first;
+}
+
+// Language-specific snippet files have no scope; `fallbackLanguage` says which language they belong to
+export function parseVsCodeSnippets(document: unknown, fallbackLanguage = FALLBACK_LANGUAGE): ParsedImport {
+  const parsed = z.record(z.unknown()).safeParse(document);
+  if (!parsed.success || Array.isArray(document)) {
+    throw new ImportFormatError('Expected an object mapping snippet names to snippets');
+  }
+
+  const candidates: ImportCandidate[] = [];
+  const errors: ImportItemError[] = [];
+  for (const [name, value] of Object.entries(parsed.data)) {
+    const snippet = vscodeSnippetSchema.safeParse(value);
+    if (!snippet.success) {
+      errors.push({ item: name, error: 'Invalid VS Code snippet', details: snippet.error.errors });
+      continue;
+    }
+
+    const body = Array.isArray(snippet.data.body) ? snippet.data.body.join('\n') : snippet.data.body;
+    candidates.push({
+      item: name,
+      title: name,
+      code: unescapeSnippetBody(body),
+      language: languageForScope(snippet.data.scope, fallbackLanguage)
+    });
+  }
+
+  return { candidates, errors };
+}
+
+export function toVsCodeSnippets(snippets: Snippet[]) {
+  const names = uniqueNames(snippets.map((snippet) => snippet.title), (name, n) => `${name} (${n})`);
+  return Object.fromEntries(
+    snippets.map((snippet, i) => [
+      names[i],
+      {
+        prefix: names[i].toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'snippet',
+        scope: vscodeScopes[snippet.language] ?? snippet.language,
+        body: escapeSnippetBody(snippet.code).split('\n')
+      }
+    ])
+  );
+}
@@ -0,0 +1,465 @@
+import { Router, RequestHandler, Request } from 'express';
+import { z } from 'zod';
+import { randomBytes } from 'crypto';
+import multer from 'multer';
+import { createTwoFilesPatch } from 'diff';
+import { storage } from './storage';
+import { pageQuerySchema, collectAllPages } from './pagination';
+import {
+  snippetFormats,
+  MAX_IMPORT_ITEMS,
+  ImportFormatError,
+  parseZip,
+  parseGist,
+  parseVsCodeSnippets,
+  toZip,
+  toGist,
+  toVsCodeSnippets,
+  type SnippetFormat,
+  type ImportItemError,
+  type ParsedImport
+} from './snippetFormats';
+import { insertSnippetSchema, tagNameSchema, type Snippet, type SnippetVisibility } from '@shared/schema';
+
+const router = Router();
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+});
+
+// Set by clients saving AI output, to the model ID that produced the revision
+const generatedBySchema = z.object({
+  generatedBy: z.string().min(1).optional()
+});
+
+// Ids, timestamps, share slugs and fork origins are always set by the server
+const createSnippetSchema = insertSnippetSchema.pick({
+  userId: true,
+  title: true,
+  code: true,
+  language: true,
+  visibility: true
+});
+
+// Only the content fields and visibility may be changed after creation
+const updateSnippetSchema = insertSnippetSchema
+  .pick({ title: true, code: true, language: true, visibility: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided'
+  });
+
+const addTagsSchema = z.object({
+  names: z.array(tagNameSchema).min(1).max(20)
+});
+
+// `language` applies to items whose language can't be inferred, such as
+// language-specific VS Code snippet files or zip entries with unknown extensions
+const importQuerySchema = z.object({
+  format: z.enum(snippetFormats),
+  language: z.string().min(1).optional()
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(snippetFormats)
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive()
+});
+
+// 128 random bits, so share links can't be guessed or enumerated
+function generateShareSlug(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+// A snippet gets its slug the first time it stops being private, and keeps it from then on
+function needsShareSlug(visibility: SnippetVisibility | undefined, current?: Snippet): boolean {
+  return visibility !== undefined && visibility !== 'private' && !current?.shareSlug;
+}
+
+function parseId(value: string): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// Other users' snippets are reported as missing so their ids don't leak
+async function getOwnedSnippet(idParam: string, userId: number): Promise<Snippet | undefined> {
+  const id = parseId(idParam);
+  const snippet = id ? await storage.getSnippet(id) : undefined;
+  return snippet && snippet.userId === userId ? snippet : undefined;
+}
+
+// Unknown model IDs are rejected so the history only ever names real models
+async function parseGeneratedBy(body: unknown): Promise<string | undefined> {
+  const { generatedBy } = generatedBySchema.parse(body);
+  if (generatedBy && !(await storage.getAIModelByModelId(generatedBy))) {
+    throw new z.ZodError([{ code: 'custom', path: ['generatedBy'], message: 'Unknown model' }]);
+  }
+  return generatedBy;
+}
+
+const listSnippetsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getSnippetsByUser(req.user!.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching snippets:', error);
+    res.status(500).json({ error: 'Failed to fetch snippets' });
+  }
+};
+
+const getSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    if (!snippet) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    res.json({ ...snippet, tags: await storage.getTagsForSnippet(snippet.id) });
+  } catch (error) {
+    console.error('Error fetching snippet:', error);
+    res.status(500).json({ error: 'Failed to fetch snippet' });
+  }
+};
+
+const createSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const data = createSnippetSchema.parse({ ...req.body, userId: req.user!.id });
+    const generatedBy = await parseGeneratedBy(req.body);
+    const snippet = await storage.createSnippet(
+      { ...data, shareSlug: needsShareSlug(data.visibility) ? generateShareSlug() : null },
+      { generatedBy }
+    );
+    res.status(201).json(snippet);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid snippet data', details: error.errors });
+      return;
+    }
+    console.error('Error creating snippet:', error);
+    res.status(500).json({ error: 'Failed to create snippet' });
+  }
+};
+
+const updateSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (!id) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    const changes = updateSnippetSchema.parse(req.body);
+    const generatedBy = await parseGeneratedBy(req.body);
+    const current = changes.visibility ? await getOwnedSnippet(req.params.id, req.user!.id) : undefined;
+    const shareSlug = current && needsShareSlug(changes.visibility, current) ? generateShareSlug() : undefined;
+
+    const snippet = await storage.updateSnippet(
+      id,
+      req.user!.id,
+      shareSlug ? { ...changes, shareSlug } : changes,
+      { generatedBy }
+    );
+
+    if (!snippet) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    res.json(snippet);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid snippet data', details: error.errors });
+      return;
+    }
+    console.error('Error updating snippet:', error);
+    res.status(500).json({ error: 'Failed to update snippet' });
+  }
+};
+
+const deleteSnippetHandler: RequestHandler = async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    const deleted = id ? await storage.deleteSnippet(id, req.user!.id) : false;
+
+    if (!deleted) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error deleting snippet:', error);
+    res.status(500).json({ error: 'Failed to delete snippet' });
+  }
+};
+
+// Versions are listed without their code; fetch one to see it
+const listVersionsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    if (!snippet) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    const page = await storage.getSnippetVersions(snippet.id, parsed.data);
+    res.json({ ...page, items: page.items.map(({ code: _, ...version }) => version) });
+  } catch (error) {
+    console.error('Error fetching snippet versions:', error);
+    res.status(500).json({ error: 'Failed to fetch snippet versions' });
+  }
+};
+
+const getVersionHandler: RequestHandler = async (req, res) => {
+  try {
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    const versionNumber = parseId(req.params.version);
+    const version = snippet && versionNumber
+      ? await storage.getSnippetVersion(snippet.id, versionNumber)
+      : undefined;
+
+    if (!version) {
+      res.status(404).json({ error: 'Snippet version not found' });
+      return;
+    }
+
+    res.json(version);
+  } catch (error) {
+    console.error('Error fetching snippet version:', error);
+    res.status(500).json({ error: 'Failed to fetch snippet version' });
+  }
+};
+
+const diffVersionsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = diffQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid diff query', details: parsed.error.errors });
+      return;
+    }
+
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    if (!snippet) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    const [from, to] = await Promise.all([
+      storage.getSnippetVersion(snippet.id, parsed.data.from),
+      storage.getSnippetVersion(snippet.id, parsed.data.to)
+    ]);
+    if (!from || !to) {
+      res.status(404).json({ error: 'Snippet version not found' });
+      return;
+    }
+
+    res.json({
+      from: from.version,
+      to: to.version,
+      title: from.title === to.title ? undefined : { from: from.title, to: to.title },
+      language: from.language === to.language ? undefined : { from: from.language, to: to.language },
+      diff: createTwoFilesPatch(`v${from.version}`, `v${to.version}`, from.code, to.code)
+    });
+  } catch (error) {
+    console.error('Error diffing snippet versions:', error);
+    res.status(500).json({ error: 'Failed to diff snippet versions' });
+  }
+};
+
+// Restoring never rewrites history: the old content becomes a new head version
+const restoreVersionHandler: RequestHandler = async (req, res) => {
+  try {
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    const versionNumber = parseId(req.params.version);
+    const version = snippet && versionNumber
+      ? await storage.getSnippetVersion(snippet.id, versionNumber)
+      : undefined;
+
+    if (!snippet || !version) {
+      res.status(404).json({ error: 'Snippet version not found' });
+      return;
+    }
+
+    const restored = await storage.updateSnippet(
+      snippet.id,
+      req.user!.id,
+      { title: version.title, code: version.code, language: version.language },
+      { generatedBy: version.generatedBy, restoredFrom: version.version }
+    );
+    if (!restored) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    res.json(restored);
+  } catch (error) {
+    console.error('Error restoring snippet version:', error);
+    res.status(500).json({ error: 'Failed to restore snippet version' });
+  }
+};
+
+// JSON formats may be uploaded as a file or sent as the request body; zips must be uploaded
+function readImport(req: Request, format: SnippetFormat, language?: string): ParsedImport {
+  if (format === 'zip') {
+    if (!req.file) {
+      throw new ImportFormatError('No zip file provided');
+    }
+    return parseZip(req.file.buffer, language);
+  }
+
+  let document: unknown = req.body;
+  if (req.file) {
+    try {
+      document = JSON.parse(req.file.buffer.toString('utf8'));
+    } catch {
+      throw new ImportFormatError('File is not valid JSON');
+    }
+  }
+  return format === 'gist' ? parseGist(document) : parseVsCodeSnippets(document, language);
+}
+
+// Each item is validated and saved on its own, so one bad file doesn't sink the batch
+const importSnippetsHandler: RequestHandler = async (req, res) => {
+  try {
+    const query = importQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: 'Invalid import query', details: query.error.errors });
+      return;
+    }
+
+    const { candidates, errors } = readImport(req, query.data.format, query.data.language);
+    if (candidates.length + errors.length > MAX_IMPORT_ITEMS) {
+      res.status(400).json({ error: `Imports are limited to ${MAX_IMPORT_ITEMS} snippets` });
+      return;
+    }
+
+    const imported: Snippet[] = [];
+    const failed: ImportItemError[] = [...errors];
+    for (const { item, title, code, language } of candidates) {
+      const data = createSnippetSchema.safeParse({ userId: req.user!.id, title, code, language });
+      if (!data.success) {
+        failed.push({ item, error: 'Invalid snippet data', details: data.error.errors });
+        continue;
+      }
+
+      try {
+        imported.push(await storage.createSnippet(data.data));
+      } catch {
+        failed.push({ item, error: 'Failed to save snippet' });
+      }
+    }
+
+    res.status(imported.length > 0 ? 201 : 200).json({ imported, errors: failed });
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Error importing snippets:', error);
+    res.status(500).json({ error: 'Failed to import snippets' });
+  }
+};
+
+const exportSnippetsHandler: RequestHandler = async (req, res) => {
+  try {
+    const query = exportQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: 'Invalid export query', details: query.error.errors });
+      return;
+    }
+
+    const user = req.user!;
+    const snippets = await collectAllPages((page) => storage.getSnippetsByUser(user.id, page));
+
+    switch (query.data.format) {
+      case 'zip':
+        res.attachment('snippets.zip');
+        res.send(toZip(snippets));
+        return;
+      case 'gist':
+        res.attachment('snippets.gist.json');
+        res.json(toGist(snippets, `Snippets exported by ${user.username}`));
+        return;
+      case 'vscode':
+        res.attachment('snippets.code-snippets');
+        res.type('application/json').send(JSON.stringify(toVsCodeSnippets(snippets), null, 2));
+        return;
+    }
+  } catch (error) {
+    console.error('Error exporting snippets:', error);
+    res.status(500).json({ error: 'Failed to export snippets' });
+  }
+};
+
+// Unknown tag names are created for the caller on the fly
+const addTagsHandler: RequestHandler = async (req, res) => {
+  try {
+    const { names } = addTagsSchema.parse(req.body);
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    if (!snippet) {
+      res.status(404).json({ error: 'Snippet not found' });
+      return;
+    }
+
+    await storage.addTagsToSnippet(snippet.id, req.user!.id, Array.from(new Set(names)));
+    res.json(await storage.getTagsForSnippet(snippet.id));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid tags', details: error.errors });
+      return;
+    }
+    console.error('Error tagging snippet:', error);
+    res.status(500).json({ error: 'Failed to tag snippet' });
+  }
+};
+
+const removeTagHandler: RequestHandler = async (req, res) => {
+  try {
+    const snippet = await getOwnedSnippet(req.params.id, req.user!.id);
+    const tagId = parseId(req.params.tagId);
+    const removed = snippet && tagId ? await storage.removeTagFromSnippet(snippet.id, tagId) : false;
+
+    if (!removed) {
+      res.status(404).json({ error: 'Tag not found on snippet' });
+      return;
+    }
+
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error untagging snippet:', error);
+    res.status(500).json({ error: 'Failed to untag snippet' });
+  }
+};
+
+router.get('/', listSnippetsHandler);
+router.post('/', createSnippetHandler);
+router.post('/import', importUpload.single('file'), importSnippetsHandler);
+router.get('/export', exportSnippetsHandler);
+router.get('/:id', getSnippetHandler);
+router.patch('/:id', updateSnippetHandler);
+router.delete('/:id', deleteSnippetHandler);
+router.get('/:id/versions', listVersionsHandler);
+router.get('/:id/versions/:version', getVersionHandler);
+router.get('/:id/diff', diffVersionsHandler);
+router.post('/:id/versions/:version/restore', restoreVersionHandler);
+router.post('/:id/tags', addTagsHandler);
+router.delete('/:id/tags/:tagId', removeTagHandler);
+
+export default router;
@@ -10,17 +10,53 @@ import {
   Plan,
   InsertPlan,
   users,
+  appSettings,
   snippets,
   conversations,
   aiModels,
-  plans
+  plans,
+  dailyRequestCounts,
+  usageEvents,
+  InsertUsageEvent,
+  UsageEvent,
+  generationCache,
+  GenerationCacheEntry,
+  authTokens,
+  AuthToken,
+  apiTokens,
+  ApiToken,
+  InsertApiToken,
+  recoveryCodes,
+  loginAttempts,
+  LoginAttempt,
+  userIdentities,
+  UserIdentity,
+  snippetVersions,
+  SnippetVersion,
+  snippetSearchVector,
+  conversationSearchVector,
+  tags,
+  snippetTags,
+  collections,
+  collectionSnippets,
+  Tag,
+  TagWithCount,
+  InsertCollection,
+  Collection,
+  CollectionWithCount
 } from "@shared/schema";
+import * as schema from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { afterCursor, pageOrder, toPage, encodeCursor, type Page, type PageRequest } from "./pagination";
+import { eq, and, or, desc, sql, gte, gt, lt, isNull, isNotNull, inArray, type SQL } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 import { pool } from "./db";
 
+// The handle db.transaction passes to its callback
+type Transaction = Parameters<Parameters<NodePgDatabase<typeof schema>["transaction"]>[0]>[0];
+
 // PostgreSQL Session Store with proper configuration
 const PostgresSessionStore = connectPg(session);
 const sessionStore = new PostgresSessionStore({
@@ -47,6 +83,52 @@ pool.on('error', (err: Error) => {
   // Connection errors are already handled in db.ts
 });
 
+// Where a snippet revision came from, recorded on its version
+export interface RevisionSource {
+  generatedBy?: string | null;
+  restoredFrom?: number | null;
+}
+
+export interface SearchFilters {
+  query: string;
+  language?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+// A ranked search match; highlight is HTML-escaped text with matches wrapped in <mark>
+export interface SearchHit {
+  id: number;
+  title: string;
+  language: string | null;
+  createdAt: Date;
+  rank: number;
+  highlight: string;
+}
+
+// A row of the session table, as stored by connect-pg-simple. The sid is the cookie secret,
+// so clients only ever see publicId, its hash
+export interface StoredSession {
+  sid: string;
+  publicId: string;
+  sess: session.SessionData;
+  expire: Date;
+}
+
+// Daily usage totals per user and model
+export interface UsageSummary {
+  day: string;
+  userId: number;
+  modelId: string;
+  requests: number;
+  failures: number;
+  cachedRequests: number;
+  promptChars: number;
+  responseChars: number;
+  avgLatencyMs: number;
+}
+
 export interface IStorage {
   // User methods
   createUser(user: InsertUser): Promise<User>;
@@ -56,32 +138,186 @@ export interface IStorage {
   getUserByStripeSubscriptionId(subscriptionId: string): Promise<User | undefined>;
   updateStripeInfo(userId: number, customerId: string, subscriptionId: string): Promise<void>;
   updateUserSubscription(userId: number, isSubscribed: boolean, endDate?: Date): Promise<void>;
+  updateUserPassword(userId: number, hashedPassword: string): Promise<void>;
+  markEmailVerified(userId: number): Promise<void>;
+  grandfatherEmailsBefore(cutoff: Date): Promise<number>;
+  updateUserRole(userId: number, role: string): Promise<User | undefined>;
+  promoteVerifiedEmailsToRole(emails: string[], role: string): Promise<void>;
+  deleteUser(userId: number): Promise<boolean>;
+
+  // App setting methods
+  getOrInitSetting(key: string, initialValue: string): Promise<string>;
 
   // Snippet methods
-  createSnippet(snippet: InsertSnippet): Promise<Snippet>;
+  createSnippet(snippet: InsertSnippet, source?: RevisionSource): Promise<Snippet>;
   getSnippet(id: number): Promise<Snippet | undefined>;
-  getAllSnippets(): Promise<Snippet[]>;
+  getAllSnippets(page: PageRequest): Promise<Page<Snippet>>;
+  getSnippetsByUser(userId: number, page: PageRequest): Promise<Page<Snippet>>;
+  updateSnippet(id: number, userId: number, data: Partial<InsertSnippet>, source?: RevisionSource): Promise<Snippet | undefined>;
+  deleteSnippet(id: number, userId: number): Promise<boolean>;
+  getSharedSnippet(shareSlug: string): Promise<Snippet | undefined>;
+  getPublicSnippets(page: PageRequest): Promise<Page<Snippet>>;
+  getSnippetVersions(snippetId: number, page: PageRequest): Promise<Page<SnippetVersion>>;
+  getSnippetVersion(snippetId: number, version: number): Promise<SnippetVersion | undefined>;
+  searchSnippets(userId: number, filters: SearchFilters): Promise<SearchHit[]>;
+  getSnippetLanguageFacets(userId: number, filters: SearchFilters): Promise<{ language: string; count: number }[]>;
+
+  // Tag methods
+  getTagsWithCounts(userId: number, page: PageRequest): Promise<Page<TagWithCount>>;
+  getTag(id: number): Promise<Tag | undefined>;
+  getTagByName(userId: number, name: string): Promise<Tag | undefined>;
+  getTagsForSnippet(snippetId: number): Promise<Tag[]>;
+  addTagsToSnippet(snippetId: number, userId: number, names: string[]): Promise<Tag[]>;
+  removeTagFromSnippet(snippetId: number, tagId: number): Promise<boolean>;
+  getSnippetsByTag(tagId: number, page: PageRequest): Promise<Page<Snippet>>;
+  renameTag(id: number, name: string): Promise<Tag | undefined>;
+  mergeTags(sourceId: number, targetId: number): Promise<void>;
+  deleteTag(id: number): Promise<boolean>;
+
+  // Collection methods
+  createCollection(collection: InsertCollection): Promise<Collection>;
+  getCollection(id: number): Promise<Collection | undefined>;
+  getCollectionByName(userId: number, name: string): Promise<Collection | undefined>;
+  getCollectionsWithCounts(userId: number, page: PageRequest): Promise<Page<CollectionWithCount>>;
+  updateCollection(id: number, data: Partial<InsertCollection>): Promise<Collection | undefined>;
+  deleteCollection(id: number): Promise<boolean>;
+  addSnippetToCollection(collectionId: number, snippetId: number): Promise<void>;
+  removeSnippetFromCollection(collectionId: number, snippetId: number): Promise<boolean>;
+  getSnippetsByCollection(collectionId: number, page: PageRequest): Promise<Page<Snippet>>;
 
   // Conversation methods
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   getConversation(id: number): Promise<Conversation | undefined>;
-  getAllConversations(): Promise<Conversation[]>;
+  getAllConversations(page: PageRequest): Promise<Page<Conversation>>;
+  getConversationsByUser(userId: number, page: PageRequest): Promise<Page<Conversation>>;
+  searchConversations(userId: number, filters: SearchFilters): Promise<SearchHit[]>;
+  countConversationMatches(userId: number, filters: SearchFilters): Promise<number>;
+  appendConversationMessages(id: number, messages: Conversation['messages']): Promise<Conversation | undefined>;
 
   // AI Models methods
   createAIModel(model: InsertAIModel): Promise<AIModel>;
   getAIModel(id: number): Promise<AIModel | undefined>;
-  getAIModelsByType(type: string): Promise<AIModel[]>;
-  getAllAIModels(): Promise<AIModel[]>;
+  getAIModelByModelId(modelId: string): Promise<AIModel | undefined>;
+  getAIModelsByType(type: string, page: PageRequest): Promise<Page<AIModel>>;
+  getAllAIModels(page: PageRequest): Promise<Page<AIModel>>;
+  updateAIModel(id: number, data: Partial<InsertAIModel>): Promise<AIModel | undefined>;
+  deleteAIModel(id: number): Promise<boolean>;
 
   // Subscription Plan methods
   createPlan(plan: InsertPlan): Promise<Plan>;
   getPlan(id: number): Promise<Plan | undefined>;
-  getAllPlans(): Promise<Plan[]>;
+  getAllPlans(page: PageRequest): Promise<Page<Plan>>;
+  updatePlan(id: number, data: Partial<InsertPlan>): Promise<Plan | undefined>;
+  deletePlan(id: number): Promise<boolean>;
+
+  // Quota methods
+  incrementDailyRequestCount(userId: number, day: string): Promise<number>;
+  decrementDailyRequestCount(userId: number, day: string): Promise<void>;
+
+  // Usage methods
+  createUsageEvent(event: InsertUsageEvent): Promise<UsageEvent>;
+  getUsageSummary(from: Date, to: Date, userId?: number): Promise<UsageSummary[]>;
+  getUsageEventsByUser(userId: number, page: PageRequest): Promise<Page<UsageEvent>>;
+
+  // Generation cache methods
+  getCachedGeneration(key: string): Promise<GenerationCacheEntry | undefined>;
+  setCachedGeneration(key: string, text: string, modelId: string, expiresAt: Date): Promise<void>;
+  deleteExpiredGenerations(): Promise<void>;
+
+  // Auth token methods
+  createAuthToken(userId: number, purpose: string, tokenHash: string, expiresAt: Date): Promise<AuthToken>;
+  consumeAuthToken(purpose: string, tokenHash: string): Promise<AuthToken | undefined>;
+  invalidateAuthTokens(userId: number, purpose: string): Promise<void>;
+  getAuthTokensSince(userId: number, purpose: string, since: Date): Promise<AuthToken[]>;
+
+  // API token methods
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokensByUser(userId: number, page: PageRequest): Promise<Page<ApiToken>>;
+  getActiveApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+  revokeApiToken(id: number, userId: number): Promise<boolean>;
+
+  // External identity methods
+  getUserByIdentity(provider: string, subject: string): Promise<User | undefined>;
+  getUserIdentities(userId: number, page: PageRequest): Promise<Page<UserIdentity>>;
+  linkUserIdentity(userId: number, provider: string, subject: string, email: string | null): Promise<UserIdentity>;
+  createUserWithIdentity(user: InsertUser, provider: string, subject: string, emailVerified: boolean): Promise<User>;
+
+  // Two-factor methods
+  setPendingTotpSecret(userId: number, secret: string): Promise<void>;
+  enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<boolean>;
+  disableTotp(userId: number): Promise<void>;
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+
+  // Login attempt methods
+  recordLoginAttempt(scope: string, key: string, windowStart: Date): Promise<LoginAttempt>;
+  getLoginAttempt(scope: string, key: string): Promise<LoginAttempt | undefined>;
+  lockLoginAttempts(scope: string, key: string, until: Date): Promise<void>;
+  releaseLoginAttempt(scope: string, key: string): Promise<void>;
+  clearLoginAttempts(scope: string, key: string): Promise<boolean>;
+  getActiveLockouts(): Promise<LoginAttempt[]>;
+
+  // Session methods
+  getUserSessions(userId: number, page: PageRequest<string>): Promise<Page<StoredSession>>;
+  getUserSession(userId: number, publicId: string): Promise<StoredSession | undefined>;
+  destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number>;
 
   // Session store
   sessionStore: typeof sessionStore;
 }
 
+// The same hash as hashToken(sid), so sessions can be found and paged by the id clients see
+const sessionPublicId = sql`encode(sha256(convert_to(sid, 'UTF8')), 'hex')`;
+// connect-pg-simple keeps expire as a timestamp without time zone in the database's zone. As a
+// timestamptz it reads back as the right instant, and cursors built from it compare exactly.
+const sessionExpire = sql`expire::timestamptz`;
+
+// websearch syntax accepts anything users type ("quoted phrases", -exclusions, or) without erroring
+function searchQuery(query: string) {
+  return sql`websearch_to_tsquery('simple', ${query})`;
+}
+
+// Escaped before ts_headline adds its <mark> tags, so matched code can't inject markup
+function highlight(text: SQL, query: SQL) {
+  return sql<string>`ts_headline('simple', replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), ${query}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MaxWords=20, MinWords=5')`;
+}
+
+function snippetSearchConditions(userId: number, filters: SearchFilters, withLanguage = true) {
+  return and(
+    eq(snippets.userId, userId),
+    sql`${snippetSearchVector(snippets)} @@ ${searchQuery(filters.query)}`,
+    withLanguage && filters.language ? eq(snippets.language, filters.language) : undefined,
+    filters.from ? gte(snippets.createdAt, filters.from) : undefined,
+    filters.to ? lt(snippets.createdAt, filters.to) : undefined
+  );
+}
+
+function conversationSearchConditions(userId: number, filters: SearchFilters) {
+  return and(
+    eq(conversations.userId, userId),
+    sql`${conversationSearchVector(conversations)} @@ ${searchQuery(filters.query)}`,
+    filters.from ? gte(conversations.createdAt, filters.from) : undefined,
+    filters.to ? lt(conversations.createdAt, filters.to) : undefined
+  );
+}
+
+// Thrown instead of the generic failure when a write hits a unique index, so a request that
+// loses a race with another one can still be answered with a 409
+export class UniqueViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UniqueViolationError';
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return (code ?? cause?.code) === '23505';
+}
+
 export class DatabaseStorage implements IStorage {
   sessionStore = sessionStore;
 
@@ -116,9 +352,15 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Emails are matched case-insensitively, as mail servers treat them
   async getUserByEmail(email: string): Promise<User | undefined> {
     try {
-      const [user] = await db.select().from(users).where(eq(users.email, email));
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+        .orderBy(users.id)
+        .limit(1);
       return user;
     } catch (error) {
       console.error('Error fetching user by email:', error);
@@ -175,11 +417,110 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateUserPassword(userId: number, hashedPassword: string): Promise<void> {
+    try {
+      await db.update(users).set({ password: hashedPassword }).where(eq(users.id, userId));
+    } catch (error) {
+      console.error('Error updating user password:', error);
+      throw new Error('Failed to update password');
+    }
+  }
+
+  async markEmailVerified(userId: number): Promise<void> {
+    try {
+      await db
+        .update(users)
+        .set({ emailVerifiedAt: new Date() })
+        .where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)));
+    } catch (error) {
+      console.error('Error marking email verified:', error);
+      throw new Error('Failed to verify email');
+    }
+  }
+
+  async grandfatherEmailsBefore(cutoff: Date): Promise<number> {
+    try {
+      const updated = await db
+        .update(users)
+        .set({ emailGrandfathered: true })
+        .where(and(
+          isNull(users.emailVerifiedAt),
+          eq(users.emailGrandfathered, false),
+          lt(users.createdAt, cutoff)
+        ))
+        .returning({ id: users.id });
+      return updated.length;
+    } catch (error) {
+      console.error('Error grandfathering email verification:', error);
+      throw new Error('Failed to grandfather email verification');
+    }
+  }
+
+  async updateUserRole(userId: number, role: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.update(users).set({ role }).where(eq(users.id, userId)).returning();
+      return user;
+    } catch (error) {
+      console.error('Error updating user role:', error);
+      throw new Error('Failed to update user role');
+    }
+  }
+
+  // Only verified addresses count: anyone can register with an address, but not receive its mail
+  async promoteVerifiedEmailsToRole(emails: string[], role: string): Promise<void> {
+    try {
+      await db
+        .update(users)
+        .set({ role })
+        .where(and(
+          inArray(sql`lower(${users.email})`, emails.map((email) => email.toLowerCase())),
+          isNotNull(users.emailVerifiedAt)
+        ));
+    } catch (error) {
+      console.error('Error promoting users:', error);
+      throw new Error('Failed to promote users');
+    }
+  }
+
+  async deleteUser(userId: number): Promise<boolean> {
+    try {
+      // Everything the user owns goes with them through the foreign keys' ON DELETE CASCADE
+      const deleted = await db.delete(users).where(eq(users.id, userId)).returning({ id: users.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw new Error('Failed to delete user');
+    }
+  }
+
+  // App setting methods
+  // The first caller's value wins, so every instance reads back the same setting
+  async getOrInitSetting(key: string, initialValue: string): Promise<string> {
+    try {
+      await db.insert(appSettings).values({ key, value: initialValue }).onConflictDoNothing();
+      const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+      return setting.value;
+    } catch (error) {
+      console.error('Error reading app setting:', error);
+      throw new Error('Failed to read app setting');
+    }
+  }
+
   // Snippets methods with improved error handling
-  async createSnippet(snippet: InsertSnippet): Promise<Snippet> {
+  async createSnippet(snippet: InsertSnippet, source: RevisionSource = {}): Promise<Snippet> {
     try {
-      const [newSnippet] = await db.insert(snippets).values(snippet).returning();
-      return newSnippet;
+      return await db.transaction(async (tx: Transaction) => {
+        const [newSnippet] = await tx.insert(snippets).values(snippet).returning();
+        await tx.insert(snippetVersions).values({
+          snippetId: newSnippet.id,
+          version: 1,
+          title: newSnippet.title,
+          code: newSnippet.code,
+          language: newSnippet.language,
+          generatedBy: source.generatedBy ?? null,
+        });
+        return newSnippet;
+      });
     } catch (error) {
       console.error('Error creating snippet:', error);
       throw new Error('Failed to create snippet');
@@ -196,120 +537,1320 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getAllSnippets(): Promise<Snippet[]> {
+  async getAllSnippets(page: PageRequest): Promise<Page<Snippet>> {
     try {
-      return await db.select().from(snippets).orderBy(desc(snippets.createdAt));
+      const rows = await db
+        .select()
+        .from(snippets)
+        .where(afterCursor(snippets, page.cursor))
+        .orderBy(...pageOrder(snippets))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
     } catch (error) {
       console.error('Error fetching all snippets:', error);
       throw new Error('Failed to fetch snippets');
     }
   }
 
-  // Conversations methods with improved error handling
-  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+  async getSnippetsByUser(userId: number, page: PageRequest): Promise<Page<Snippet>> {
     try {
-      const [newConversation] = await db
-        .insert(conversations)
-        .values(conversation)
-        .returning();
-      return newConversation;
+      const rows = await db
+        .select()
+        .from(snippets)
+        .where(and(eq(snippets.userId, userId), afterCursor(snippets, page.cursor)))
+        .orderBy(...pageOrder(snippets))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
     } catch (error) {
-      console.error('Error creating conversation:', error);
-      throw new Error('Failed to create conversation');
+      console.error('Error fetching snippets by user:', error);
+      throw new Error('Failed to fetch snippets by user');
     }
   }
 
-  async getConversation(id: number): Promise<Conversation | undefined> {
+  async updateSnippet(
+    id: number,
+    userId: number,
+    data: Partial<InsertSnippet>,
+    source: RevisionSource = {}
+  ): Promise<Snippet | undefined> {
     try {
-      const [conversation] = await db
+      // Never allow ownership to be reassigned through an update
+      const { userId: _, ...changes } = data;
+
+      return await db.transaction(async (tx: Transaction) => {
+        // Locking the row serialises concurrent edits, so version numbers can't collide
+        const [current] = await tx
+          .select()
+          .from(snippets)
+          .where(and(eq(snippets.id, id), eq(snippets.userId, userId)))
+          .for('update');
+        if (!current) {
+          return undefined;
+        }
+
+        // Only content changes make a version; sharing settings aren't part of the history
+        const contentChanged = (['title', 'code', 'language'] as const).some(
+          (field) => changes[field] !== undefined && changes[field] !== current[field]
+        );
+        if (!contentChanged) {
+          const [updated] = await tx.update(snippets).set(changes).where(eq(snippets.id, id)).returning();
+          return updated;
+        }
+
+        const [latest] = await tx
+          .select({ version: snippetVersions.version })
+          .from(snippetVersions)
+          .where(eq(snippetVersions.snippetId, id))
+          .orderBy(desc(snippetVersions.version))
+          .limit(1);
+
+        // Snippets saved before history existed get their original state recorded first
+        let version = latest?.version ?? 0;
+        if (!latest) {
+          version = 1;
+          await tx.insert(snippetVersions).values({
+            snippetId: id,
+            version,
+            title: current.title,
+            code: current.code,
+            language: current.language,
+            createdAt: current.createdAt,
+          });
+        }
+
+        const [updated] = await tx.update(snippets).set(changes).where(eq(snippets.id, id)).returning();
+        await tx.insert(snippetVersions).values({
+          snippetId: id,
+          version: version + 1,
+          title: updated.title,
+          code: updated.code,
+          language: updated.language,
+          generatedBy: source.generatedBy ?? null,
+          restoredFrom: source.restoredFrom ?? null,
+        });
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error updating snippet:', error);
+      throw new Error('Failed to update snippet');
+    }
+  }
+
+  async deleteSnippet(id: number, userId: number): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(snippets)
+        .where(and(eq(snippets.id, id), eq(snippets.userId, userId)))
+        .returning({ id: snippets.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting snippet:', error);
+      throw new Error('Failed to delete snippet');
+    }
+  }
+
+  async getSharedSnippet(shareSlug: string): Promise<Snippet | undefined> {
+    try {
+      // A snippet made private again keeps its slug, but the link stops working
+      const [snippet] = await db
         .select()
-        .from(conversations)
-        .where(eq(conversations.id, id));
-      return conversation;
+        .from(snippets)
+        .where(and(eq(snippets.shareSlug, shareSlug), inArray(snippets.visibility, ['unlisted', 'public'])));
+      return snippet;
     } catch (error) {
-      console.error('Error fetching conversation:', error);
-      throw new Error('Failed to fetch conversation');
+      console.error('Error fetching shared snippet:', error);
+      throw new Error('Failed to fetch shared snippet');
+    }
+  }
+
+  async getPublicSnippets(page: PageRequest): Promise<Page<Snippet>> {
+    try {
+      const rows = await db
+        .select()
+        .from(snippets)
+        .where(and(eq(snippets.visibility, 'public'), afterCursor(snippets, page.cursor)))
+        .orderBy(...pageOrder(snippets))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching public snippets:', error);
+      throw new Error('Failed to fetch public snippets');
+    }
+  }
+
+  async getSnippetVersions(snippetId: number, page: PageRequest): Promise<Page<SnippetVersion>> {
+    try {
+      const rows = await db
+        .select()
+        .from(snippetVersions)
+        .where(and(eq(snippetVersions.snippetId, snippetId), afterCursor(snippetVersions, page.cursor)))
+        .orderBy(...pageOrder(snippetVersions))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching snippet versions:', error);
+      throw new Error('Failed to fetch snippet versions');
     }
   }
 
-  async getAllConversations(): Promise<Conversation[]> {
+  async getSnippetVersion(snippetId: number, version: number): Promise<SnippetVersion | undefined> {
     try {
+      const [row] = await db
+        .select()
+        .from(snippetVersions)
+        .where(and(eq(snippetVersions.snippetId, snippetId), eq(snippetVersions.version, version)));
+      return row;
+    } catch (error) {
+      console.error('Error fetching snippet version:', error);
+      throw new Error('Failed to fetch snippet version');
+    }
+  }
+
+  async searchSnippets(userId: number, filters: SearchFilters): Promise<SearchHit[]> {
+    try {
+      const rank = sql<number>`ts_rank(${snippetSearchVector(snippets)}, ${searchQuery(filters.query)})`;
+      return await db
+        .select({
+          id: snippets.id,
+          title: snippets.title,
+          language: snippets.language,
+          createdAt: snippets.createdAt,
+          rank,
+          highlight: highlight(sql`${snippets.code}`, searchQuery(filters.query)),
+        })
+        .from(snippets)
+        .where(snippetSearchConditions(userId, filters))
+        .orderBy(desc(rank), desc(snippets.createdAt))
+        .limit(filters.limit);
+    } catch (error) {
+      console.error('Error searching snippets:', error);
+      throw new Error('Failed to search snippets');
+    }
+  }
+
+  async getSnippetLanguageFacets(userId: number, filters: SearchFilters): Promise<{ language: string; count: number }[]> {
+    try {
+      // Ignores the language filter so the counts show what choosing another language would find
       return await db
+        .select({ language: snippets.language, count: sql<number>`count(*)::int` })
+        .from(snippets)
+        .where(snippetSearchConditions(userId, filters, false))
+        .groupBy(snippets.language)
+        .orderBy(desc(sql`count(*)`));
+    } catch (error) {
+      console.error('Error fetching snippet facets:', error);
+      throw new Error('Failed to fetch search facets');
+    }
+  }
+
+  // Tag methods
+  async getTagsWithCounts(userId: number, page: PageRequest): Promise<Page<TagWithCount>> {
+    try {
+      const rows = await db
+        .select({
+          id: tags.id,
+          userId: tags.userId,
+          name: tags.name,
+          createdAt: tags.createdAt,
+          snippetCount: sql<number>`count(${snippetTags.snippetId})::int`,
+        })
+        .from(tags)
+        .leftJoin(snippetTags, eq(snippetTags.tagId, tags.id))
+        .where(and(eq(tags.userId, userId), afterCursor(tags, page.cursor)))
+        .groupBy(tags.id)
+        .orderBy(...pageOrder(tags))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      throw new Error('Failed to fetch tags');
+    }
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    try {
+      const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+      return tag;
+    } catch (error) {
+      console.error('Error fetching tag:', error);
+      throw new Error('Failed to fetch tag');
+    }
+  }
+
+  async getTagByName(userId: number, name: string): Promise<Tag | undefined> {
+    try {
+      const [tag] = await db.select().from(tags).where(and(eq(tags.userId, userId), eq(tags.name, name)));
+      return tag;
+    } catch (error) {
+      console.error('Error fetching tag by name:', error);
+      throw new Error('Failed to fetch tag');
+    }
+  }
+
+  async getTagsForSnippet(snippetId: number): Promise<Tag[]> {
+    try {
+      const rows = await db
+        .select({ tag: tags })
+        .from(snippetTags)
+        .innerJoin(tags, eq(snippetTags.tagId, tags.id))
+        .where(eq(snippetTags.snippetId, snippetId))
+        .orderBy(tags.name);
+      return rows.map((row: { tag: Tag }) => row.tag);
+    } catch (error) {
+      console.error('Error fetching snippet tags:', error);
+      throw new Error('Failed to fetch snippet tags');
+    }
+  }
+
+  async addTagsToSnippet(snippetId: number, userId: number, names: string[]): Promise<Tag[]> {
+    try {
+      return await db.transaction(async (tx: Transaction) => {
+        // Tags are created on first use
+        await tx
+          .insert(tags)
+          .values(names.map((name) => ({ userId, name })))
+          .onConflictDoNothing({ target: [tags.userId, tags.name] });
+        const added = await tx
+          .select()
+          .from(tags)
+          .where(and(eq(tags.userId, userId), inArray(tags.name, names)));
+
+        await tx
+          .insert(snippetTags)
+          .values(added.map((tag: Tag) => ({ snippetId, tagId: tag.id })))
+          .onConflictDoNothing();
+        return added;
+      });
+    } catch (error) {
+      console.error('Error tagging snippet:', error);
+      throw new Error('Failed to tag snippet');
+    }
+  }
+
+  async removeTagFromSnippet(snippetId: number, tagId: number): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(snippetTags)
+        .where(and(eq(snippetTags.snippetId, snippetId), eq(snippetTags.tagId, tagId)))
+        .returning({ tagId: snippetTags.tagId });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error untagging snippet:', error);
+      throw new Error('Failed to untag snippet');
+    }
+  }
+
+  async getSnippetsByTag(tagId: number, page: PageRequest): Promise<Page<Snippet>> {
+    try {
+      const rows = await db
+        .select({ snippet: snippets })
+        .from(snippetTags)
+        .innerJoin(snippets, eq(snippetTags.snippetId, snippets.id))
+        .where(and(eq(snippetTags.tagId, tagId), afterCursor(snippets, page.cursor)))
+        .orderBy(...pageOrder(snippets))
+        .limit(page.limit + 1);
+      return toPage(rows.map((row: { snippet: Snippet }) => row.snippet), page.limit);
+    } catch (error) {
+      console.error('Error fetching snippets by tag:', error);
+      throw new Error('Failed to fetch snippets by tag');
+    }
+  }
+
+  async renameTag(id: number, name: string): Promise<Tag | undefined> {
+    try {
+      const [tag] = await db.update(tags).set({ name }).where(eq(tags.id, id)).returning();
+      return tag;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new UniqueViolationError('A tag with that name already exists');
+      }
+      console.error('Error renaming tag:', error);
+      throw new Error('Failed to rename tag');
+    }
+  }
+
+  async mergeTags(sourceId: number, targetId: number): Promise<void> {
+    try {
+      await db.transaction(async (tx: Transaction) => {
+        // Snippets that already carry both tags keep a single link to the target
+        await tx.execute(sql`
+          INSERT INTO snippet_tags (snippet_id, tag_id)
+          SELECT snippet_id, ${targetId} FROM snippet_tags WHERE tag_id = ${sourceId}
+          ON CONFLICT DO NOTHING
+        `);
+        await tx.delete(tags).where(eq(tags.id, sourceId));
+      });
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      throw new Error('Failed to merge tags');
+    }
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(tags).where(eq(tags.id, id)).returning({ id: tags.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      throw new Error('Failed to delete tag');
+    }
+  }
+
+  // Collection methods
+  async createCollection(collection: InsertCollection): Promise<Collection> {
+    try {
+      const [newCollection] = await db.insert(collections).values(collection).returning();
+      return newCollection;
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new UniqueViolationError('A collection with that name already exists');
+      }
+      console.error('Error creating collection:', error);
+      throw new Error('Failed to create collection');
+    }
+  }
+
+  async getCollection(id: number): Promise<Collection | undefined> {
+    try {
+      const [collection] = await db.select().from(collections).where(eq(collections.id, id));
+      return collection;
+    } catch (error) {
+      console.error('Error fetching collection:', error);
+      throw new Error('Failed to fetch collection');
+    }
+  }
+
+  async getCollectionByName(userId: number, name: string): Promise<Collection | undefined> {
+    try {
+      const [collection] = await db
         .select()
-        .from(conversations)
-        .orderBy(desc(conversations.createdAt));
+        .from(collections)
+        .where(and(eq(collections.userId, userId), eq(collections.name, name)));
+      return collection;
     } catch (error) {
-      console.error('Error fetching all conversations:', error);
-      throw new Error('Failed to fetch conversations');
+      console.error('Error fetching collection by name:', error);
+      throw new Error('Failed to fetch collection');
     }
   }
 
-  // AI Models methods with improved error handling
-  async createAIModel(model: InsertAIModel): Promise<AIModel> {
+  async getCollectionsWithCounts(userId: number, page: PageRequest): Promise<Page<CollectionWithCount>> {
     try {
-      const [newModel] = await db.insert(aiModels).values(model).returning();
-      return newModel;
+      const rows = await db
+        .select({
+          id: collections.id,
+          userId: collections.userId,
+          name: collections.name,
+          description: collections.description,
+          createdAt: collections.createdAt,
+          snippetCount: sql<number>`count(${collectionSnippets.snippetId})::int`,
+        })
+        .from(collections)
+        .leftJoin(collectionSnippets, eq(collectionSnippets.collectionId, collections.id))
+        .where(and(eq(collections.userId, userId), afterCursor(collections, page.cursor)))
+        .groupBy(collections.id)
+        .orderBy(...pageOrder(collections))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
     } catch (error) {
-      console.error('Error creating AI model:', error);
-      throw new Error('Failed to create AI model');
+      console.error('Error fetching collections:', error);
+      throw new Error('Failed to fetch collections');
     }
   }
 
-  async getAIModel(id: number): Promise<AIModel | undefined> {
+  async updateCollection(id: number, data: Partial<InsertCollection>): Promise<Collection | undefined> {
     try {
-      const [model] = await db.select().from(aiModels).where(eq(aiModels.id, id));
-      return model;
+      // Never allow ownership to be reassigned through an update
+      const { userId: _, ...changes } = data;
+      const [collection] = await db.update(collections).set(changes).where(eq(collections.id, id)).returning();
+      return collection;
     } catch (error) {
-      console.error('Error fetching AI model:', error);
-      throw new Error('Failed to fetch AI model');
+      if (isUniqueViolation(error)) {
+        throw new UniqueViolationError('A collection with that name already exists');
+      }
+      console.error('Error updating collection:', error);
+      throw new Error('Failed to update collection');
     }
   }
 
-  async getAIModelsByType(type: string): Promise<AIModel[]> {
+  async deleteCollection(id: number): Promise<boolean> {
     try {
-      return await db.select().from(aiModels).where(eq(aiModels.type, type));
+      const deleted = await db.delete(collections).where(eq(collections.id, id)).returning({ id: collections.id });
+      return deleted.length > 0;
     } catch (error) {
-      console.error('Error fetching AI models by type:', error);
-      throw new Error('Failed to fetch AI models by type');
+      console.error('Error deleting collection:', error);
+      throw new Error('Failed to delete collection');
     }
   }
 
-  async getAllAIModels(): Promise<AIModel[]> {
+  async addSnippetToCollection(collectionId: number, snippetId: number): Promise<void> {
     try {
-      return await db.select().from(aiModels);
+      await db.insert(collectionSnippets).values({ collectionId, snippetId }).onConflictDoNothing();
     } catch (error) {
-      console.error('Error fetching all AI models:', error);
-      throw new Error('Failed to fetch AI models');
+      console.error('Error adding snippet to collection:', error);
+      throw new Error('Failed to add snippet to collection');
     }
   }
 
-  // Subscription plans methods with improved error handling
-  async createPlan(plan: InsertPlan): Promise<Plan> {
+  async removeSnippetFromCollection(collectionId: number, snippetId: number): Promise<boolean> {
     try {
-      const [newPlan] = await db.insert(plans).values(plan).returning();
-      return newPlan;
+      const deleted = await db
+        .delete(collectionSnippets)
+        .where(and(eq(collectionSnippets.collectionId, collectionId), eq(collectionSnippets.snippetId, snippetId)))
+        .returning({ snippetId: collectionSnippets.snippetId });
+      return deleted.length > 0;
     } catch (error) {
-      console.error('Error creating plan:', error);
-      throw new Error('Failed to create subscription plan');
+      console.error('Error removing snippet from collection:', error);
+      throw new Error('Failed to remove snippet from collection');
     }
   }
 
-  async getPlan(id: number): Promise<Plan | undefined> {
+  async getSnippetsByCollection(collectionId: number, page: PageRequest): Promise<Page<Snippet>> {
     try {
-      const [plan] = await db.select().from(plans).where(eq(plans.id, id));
-      return plan;
+      const rows = await db
+        .select({ snippet: snippets })
+        .from(collectionSnippets)
+        .innerJoin(snippets, eq(collectionSnippets.snippetId, snippets.id))
+        .where(and(eq(collectionSnippets.collectionId, collectionId), afterCursor(snippets, page.cursor)))
+        .orderBy(...pageOrder(snippets))
+        .limit(page.limit + 1);
+      return toPage(rows.map((row: { snippet: Snippet }) => row.snippet), page.limit);
     } catch (error) {
-      console.error('Error fetching plan:', error);
-      throw new Error('Failed to fetch subscription plan');
+      console.error('Error fetching snippets by collection:', error);
+      throw new Error('Failed to fetch snippets by collection');
     }
   }
 
-  async getAllPlans(): Promise<Plan[]> {
+  // Conversations methods with improved error handling
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
     try {
-      return await db.select().from(plans);
+      const [newConversation] = await db
+        .insert(conversations)
+        .values(conversation)
+        .returning();
+      return newConversation;
     } catch (error) {
-      console.error('Error fetching all plans:', error);
-      throw new Error('Failed to fetch subscription plans');
+      console.error('Error creating conversation:', error);
+      throw new Error('Failed to create conversation');
+    }
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    try {
+      const [conversation] = await db
+        .select()
+        .from(conversations)
+        .where(eq(conversations.id, id));
+      return conversation;
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+      throw new Error('Failed to fetch conversation');
+    }
+  }
+
+  async getConversationsByUser(userId: number, page: PageRequest): Promise<Page<Conversation>> {
+    try {
+      const rows = await db
+        .select()
+        .from(conversations)
+        .where(and(eq(conversations.userId, userId), afterCursor(conversations, page.cursor)))
+        .orderBy(...pageOrder(conversations))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching conversations by user:', error);
+      throw new Error('Failed to fetch conversations');
+    }
+  }
+
+  async searchConversations(userId: number, filters: SearchFilters): Promise<SearchHit[]> {
+    try {
+      const rank = sql<number>`ts_rank(${conversationSearchVector(conversations)}, ${searchQuery(filters.query)})`;
+      const content = sql`(SELECT string_agg(m ->> 'content', chr(10)) FROM json_array_elements(${conversations.messages}) AS m)`;
+      return await db
+        .select({
+          id: conversations.id,
+          title: conversations.title,
+          language: sql<string | null>`NULL`,
+          createdAt: conversations.createdAt,
+          rank,
+          highlight: highlight(content, searchQuery(filters.query)),
+        })
+        .from(conversations)
+        .where(conversationSearchConditions(userId, filters))
+        .orderBy(desc(rank), desc(conversations.createdAt))
+        .limit(filters.limit);
+    } catch (error) {
+      console.error('Error searching conversations:', error);
+      throw new Error('Failed to search conversations');
+    }
+  }
+
+  async countConversationMatches(userId: number, filters: SearchFilters): Promise<number> {
+    try {
+      const [result] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(conversations)
+        .where(conversationSearchConditions(userId, filters));
+      return result?.count ?? 0;
+    } catch (error) {
+      console.error('Error counting conversation matches:', error);
+      throw new Error('Failed to count conversation matches');
+    }
+  }
+
+  async getAllConversations(page: PageRequest): Promise<Page<Conversation>> {
+    try {
+      const rows = await db
+        .select()
+        .from(conversations)
+        .where(afterCursor(conversations, page.cursor))
+        .orderBy(...pageOrder(conversations))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching all conversations:', error);
+      throw new Error('Failed to fetch conversations');
+    }
+  }
+
+  // Appends in the UPDATE itself, so concurrent sends can't overwrite each other's turns
+  async appendConversationMessages(
+    id: number,
+    messages: Conversation['messages']
+  ): Promise<Conversation | undefined> {
+    try {
+      const [updated] = await db
+        .update(conversations)
+        .set({ messages: sql`(${conversations.messages}::jsonb || ${JSON.stringify(messages)}::jsonb)::json` })
+        .where(eq(conversations.id, id))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('Error updating conversation messages:', error);
+      throw new Error('Failed to update conversation');
+    }
+  }
+
+  // AI Models methods with improved error handling
+  async createAIModel(model: InsertAIModel): Promise<AIModel> {
+    try {
+      const [newModel] = await db.insert(aiModels).values(model).returning();
+      return newModel;
+    } catch (error) {
+      console.error('Error creating AI model:', error);
+      throw new Error('Failed to create AI model');
+    }
+  }
+
+  async getAIModel(id: number): Promise<AIModel | undefined> {
+    try {
+      const [model] = await db.select().from(aiModels).where(eq(aiModels.id, id));
+      return model;
+    } catch (error) {
+      console.error('Error fetching AI model:', error);
+      throw new Error('Failed to fetch AI model');
+    }
+  }
+
+  async getAIModelByModelId(modelId: string): Promise<AIModel | undefined> {
+    try {
+      const [model] = await db.select().from(aiModels).where(eq(aiModels.modelId, modelId));
+      return model;
+    } catch (error) {
+      console.error('Error fetching AI model by model ID:', error);
+      throw new Error('Failed to fetch AI model by model ID');
+    }
+  }
+
+  async getAIModelsByType(type: string, page: PageRequest): Promise<Page<AIModel>> {
+    try {
+      const rows = await db
+        .select()
+        .from(aiModels)
+        .where(and(eq(aiModels.type, type), afterCursor(aiModels, page.cursor)))
+        .orderBy(...pageOrder(aiModels))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching AI models by type:', error);
+      throw new Error('Failed to fetch AI models by type');
+    }
+  }
+
+  async getAllAIModels(page: PageRequest): Promise<Page<AIModel>> {
+    try {
+      const rows = await db
+        .select()
+        .from(aiModels)
+        .where(afterCursor(aiModels, page.cursor))
+        .orderBy(...pageOrder(aiModels))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching all AI models:', error);
+      throw new Error('Failed to fetch AI models');
+    }
+  }
+
+  async updateAIModel(id: number, data: Partial<InsertAIModel>): Promise<AIModel | undefined> {
+    try {
+      const [model] = await db.update(aiModels).set(data).where(eq(aiModels.id, id)).returning();
+      return model;
+    } catch (error) {
+      console.error('Error updating AI model:', error);
+      throw new Error('Failed to update AI model');
+    }
+  }
+
+  async deleteAIModel(id: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(aiModels).where(eq(aiModels.id, id)).returning({ id: aiModels.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting AI model:', error);
+      throw new Error('Failed to delete AI model');
+    }
+  }
+
+  // Subscription plans methods with improved error handling
+  async createPlan(plan: InsertPlan): Promise<Plan> {
+    try {
+      const [newPlan] = await db.insert(plans).values(plan).returning();
+      return newPlan;
+    } catch (error) {
+      console.error('Error creating plan:', error);
+      throw new Error('Failed to create subscription plan');
+    }
+  }
+
+  async getPlan(id: number): Promise<Plan | undefined> {
+    try {
+      const [plan] = await db.select().from(plans).where(eq(plans.id, id));
+      return plan;
+    } catch (error) {
+      console.error('Error fetching plan:', error);
+      throw new Error('Failed to fetch subscription plan');
+    }
+  }
+
+  async getAllPlans(page: PageRequest): Promise<Page<Plan>> {
+    try {
+      const rows = await db
+        .select()
+        .from(plans)
+        .where(afterCursor(plans, page.cursor))
+        .orderBy(...pageOrder(plans))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching all plans:', error);
+      throw new Error('Failed to fetch subscription plans');
+    }
+  }
+
+  async updatePlan(id: number, data: Partial<InsertPlan>): Promise<Plan | undefined> {
+    try {
+      const [plan] = await db.update(plans).set(data).where(eq(plans.id, id)).returning();
+      return plan;
+    } catch (error) {
+      console.error('Error updating plan:', error);
+      throw new Error('Failed to update subscription plan');
+    }
+  }
+
+  async deletePlan(id: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(plans).where(eq(plans.id, id)).returning({ id: plans.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting plan:', error);
+      throw new Error('Failed to delete subscription plan');
+    }
+  }
+
+  // Quota methods
+  async incrementDailyRequestCount(userId: number, day: string): Promise<number> {
+    try {
+      // Upsert so concurrent requests on different instances can't lose increments
+      const [row] = await db
+        .insert(dailyRequestCounts)
+        .values({ userId, day, count: 1 })
+        .onConflictDoUpdate({
+          target: [dailyRequestCounts.userId, dailyRequestCounts.day],
+          set: { count: sql`${dailyRequestCounts.count} + 1` },
+        })
+        .returning({ count: dailyRequestCounts.count });
+      return row.count;
+    } catch (error) {
+      console.error('Error incrementing daily request count:', error);
+      throw new Error('Failed to update request quota');
+    }
+  }
+
+  async decrementDailyRequestCount(userId: number, day: string): Promise<void> {
+    try {
+      await db
+        .update(dailyRequestCounts)
+        .set({ count: sql`greatest(${dailyRequestCounts.count} - 1, 0)` })
+        .where(and(eq(dailyRequestCounts.userId, userId), eq(dailyRequestCounts.day, day)));
+    } catch (error) {
+      console.error('Error decrementing daily request count:', error);
+      throw new Error('Failed to update request quota');
+    }
+  }
+
+  // Usage methods
+  async createUsageEvent(event: InsertUsageEvent): Promise<UsageEvent> {
+    try {
+      const [newEvent] = await db.insert(usageEvents).values(event).returning();
+      return newEvent;
+    } catch (error) {
+      console.error('Error creating usage event:', error);
+      throw new Error('Failed to record usage');
+    }
+  }
+
+  async getUsageSummary(from: Date, to: Date, userId?: number): Promise<UsageSummary[]> {
+    try {
+      const day = sql<string>`to_char(date_trunc('day', ${usageEvents.createdAt}), 'YYYY-MM-DD')`;
+      return await db
+        .select({
+          day,
+          userId: usageEvents.userId,
+          modelId: usageEvents.modelId,
+          requests: sql<number>`count(*)::int`,
+          failures: sql<number>`(count(*) filter (where not ${usageEvents.success}))::int`,
+          cachedRequests: sql<number>`(count(*) filter (where ${usageEvents.cached}))::int`,
+          promptChars: sql<number>`coalesce(sum(${usageEvents.promptChars}), 0)::int`,
+          responseChars: sql<number>`coalesce(sum(${usageEvents.responseChars}), 0)::int`,
+          // Cache hits never reach a provider, so they would only drag the average down
+          avgLatencyMs: sql<number>`coalesce(round(avg(${usageEvents.latencyMs}) filter (where not ${usageEvents.cached})), 0)::int`,
+        })
+        .from(usageEvents)
+        .where(and(
+          gte(usageEvents.createdAt, from),
+          lt(usageEvents.createdAt, to),
+          userId !== undefined ? eq(usageEvents.userId, userId) : undefined
+        ))
+        .groupBy(day, usageEvents.userId, usageEvents.modelId)
+        .orderBy(day, usageEvents.userId, usageEvents.modelId);
+    } catch (error) {
+      console.error('Error fetching usage summary:', error);
+      throw new Error('Failed to fetch usage summary');
+    }
+  }
+
+  async getUsageEventsByUser(userId: number, page: PageRequest): Promise<Page<UsageEvent>> {
+    try {
+      const rows = await db
+        .select()
+        .from(usageEvents)
+        .where(and(eq(usageEvents.userId, userId), afterCursor(usageEvents, page.cursor)))
+        .orderBy(...pageOrder(usageEvents))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching usage events by user:', error);
+      throw new Error('Failed to fetch usage events');
+    }
+  }
+
+  // Generation cache methods
+  async getCachedGeneration(key: string): Promise<GenerationCacheEntry | undefined> {
+    try {
+      const [entry] = await db
+        .select()
+        .from(generationCache)
+        .where(and(eq(generationCache.key, key), gt(generationCache.expiresAt, new Date())));
+      return entry;
+    } catch (error) {
+      console.error('Error fetching cached generation:', error);
+      throw new Error('Failed to fetch cached generation');
+    }
+  }
+
+  async setCachedGeneration(
+    key: string,
+    text: string,
+    modelId: string,
+    expiresAt: Date
+  ): Promise<void> {
+    try {
+      await db
+        .insert(generationCache)
+        .values({ key, text, modelId, expiresAt })
+        .onConflictDoUpdate({
+          target: generationCache.key,
+          set: { text, modelId, expiresAt, createdAt: new Date() },
+        });
+    } catch (error) {
+      console.error('Error caching generation:', error);
+      throw new Error('Failed to cache generation');
+    }
+  }
+
+  async deleteExpiredGenerations(): Promise<void> {
+    try {
+      await db.delete(generationCache).where(lt(generationCache.expiresAt, new Date()));
+    } catch (error) {
+      console.error('Error pruning generation cache:', error);
+      throw new Error('Failed to prune generation cache');
+    }
+  }
+
+  // Auth token methods
+  async createAuthToken(
+    userId: number,
+    purpose: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<AuthToken> {
+    try {
+      const [token] = await db
+        .insert(authTokens)
+        .values({ userId, purpose, tokenHash, expiresAt })
+        .returning();
+      return token;
+    } catch (error) {
+      console.error('Error creating auth token:', error);
+      throw new Error('Failed to create auth token');
+    }
+  }
+
+  async consumeAuthToken(purpose: string, tokenHash: string): Promise<AuthToken | undefined> {
+    try {
+      // Marking the token used in the same statement that checks it keeps it single-use
+      const [token] = await db
+        .update(authTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(authTokens.purpose, purpose),
+          eq(authTokens.tokenHash, tokenHash),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, new Date())
+        ))
+        .returning();
+      return token;
+    } catch (error) {
+      console.error('Error consuming auth token:', error);
+      throw new Error('Failed to consume auth token');
+    }
+  }
+
+  async invalidateAuthTokens(userId: number, purpose: string): Promise<void> {
+    try {
+      await db
+        .update(authTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(authTokens.userId, userId),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt)
+        ));
+    } catch (error) {
+      console.error('Error invalidating auth tokens:', error);
+      throw new Error('Failed to invalidate auth tokens');
+    }
+  }
+
+  async getAuthTokensSince(userId: number, purpose: string, since: Date): Promise<AuthToken[]> {
+    try {
+      return await db
+        .select()
+        .from(authTokens)
+        .where(and(
+          eq(authTokens.userId, userId),
+          eq(authTokens.purpose, purpose),
+          gte(authTokens.createdAt, since)
+        ))
+        .orderBy(desc(authTokens.createdAt));
+    } catch (error) {
+      console.error('Error fetching recent auth tokens:', error);
+      throw new Error('Failed to fetch auth tokens');
+    }
+  }
+
+  // API token methods
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    try {
+      const [newToken] = await db.insert(apiTokens).values(token).returning();
+      return newToken;
+    } catch (error) {
+      console.error('Error creating API token:', error);
+      throw new Error('Failed to create API token');
+    }
+  }
+
+  async getApiTokensByUser(userId: number, page: PageRequest): Promise<Page<ApiToken>> {
+    try {
+      const rows = await db
+        .select()
+        .from(apiTokens)
+        .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt), afterCursor(apiTokens, page.cursor)))
+        .orderBy(...pageOrder(apiTokens))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching API tokens:', error);
+      throw new Error('Failed to fetch API tokens');
+    }
+  }
+
+  async getActiveApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    try {
+      const [token] = await db
+        .select()
+        .from(apiTokens)
+        .where(and(
+          eq(apiTokens.tokenHash, tokenHash),
+          isNull(apiTokens.revokedAt),
+          or(isNull(apiTokens.expiresAt), gt(apiTokens.expiresAt, new Date()))
+        ));
+      return token;
+    } catch (error) {
+      console.error('Error fetching API token:', error);
+      throw new Error('Failed to fetch API token');
+    }
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    try {
+      await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+    } catch (error) {
+      console.error('Error updating API token last use:', error);
+      throw new Error('Failed to update API token');
+    }
+  }
+
+  async revokeApiToken(id: number, userId: number): Promise<boolean> {
+    try {
+      const revoked = await db
+        .update(apiTokens)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+        .returning({ id: apiTokens.id });
+      return revoked.length > 0;
+    } catch (error) {
+      console.error('Error revoking API token:', error);
+      throw new Error('Failed to revoke API token');
+    }
+  }
+
+  // External identity methods
+  async getUserByIdentity(provider: string, subject: string): Promise<User | undefined> {
+    try {
+      const [row] = await db
+        .select({ user: users })
+        .from(userIdentities)
+        .innerJoin(users, eq(userIdentities.userId, users.id))
+        .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)));
+      return row?.user;
+    } catch (error) {
+      console.error('Error fetching user by identity:', error);
+      throw new Error('Failed to fetch user by identity');
+    }
+  }
+
+  async getUserIdentities(userId: number, page: PageRequest): Promise<Page<UserIdentity>> {
+    try {
+      const rows = await db
+        .select()
+        .from(userIdentities)
+        .where(and(eq(userIdentities.userId, userId), afterCursor(userIdentities, page.cursor)))
+        .orderBy(...pageOrder(userIdentities))
+        .limit(page.limit + 1);
+      return toPage(rows, page.limit);
+    } catch (error) {
+      console.error('Error fetching user identities:', error);
+      throw new Error('Failed to fetch user identities');
+    }
+  }
+
+  async linkUserIdentity(userId: number, provider: string, subject: string, email: string | null): Promise<UserIdentity> {
+    try {
+      const [identity] = await db
+        .insert(userIdentities)
+        .values({ userId, provider, subject, email })
+        .returning();
+      return identity;
+    } catch (error) {
+      console.error('Error linking user identity:', error);
+      throw new Error('Failed to link user identity');
+    }
+  }
+
+  async createUserWithIdentity(user: InsertUser, provider: string, subject: string, emailVerified: boolean): Promise<User> {
+    try {
+      return await db.transaction(async (tx: Transaction) => {
+        const [newUser] = await tx
+          .insert(users)
+          .values({ ...user, emailVerifiedAt: emailVerified ? new Date() : null })
+          .returning();
+        await tx.insert(userIdentities).values({ userId: newUser.id, provider, subject, email: newUser.email });
+        return newUser;
+      });
+    } catch (error) {
+      console.error('Error creating user with identity:', error);
+      throw new Error('Failed to create user');
+    }
+  }
+
+  // Two-factor methods
+  async setPendingTotpSecret(userId: number, secret: string): Promise<void> {
+    try {
+      // Never overwrite the secret of an enrollment that's already confirmed
+      await db
+        .update(users)
+        .set({ totpSecret: secret, totpLastUsedStep: null })
+        .where(and(eq(users.id, userId), isNull(users.totpEnabledAt)));
+    } catch (error) {
+      console.error('Error saving TOTP secret:', error);
+      throw new Error('Failed to save TOTP secret');
+    }
+  }
+
+  async enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx: Transaction) => {
+        const enabled = await tx
+          .update(users)
+          .set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+          .where(and(eq(users.id, userId), isNull(users.totpEnabledAt)))
+          .returning({ id: users.id });
+        if (enabled.length === 0) {
+          return false;
+        }
+
+        await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+        await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+        return true;
+      });
+    } catch (error) {
+      console.error('Error enabling two-factor auth:', error);
+      throw new Error('Failed to enable two-factor auth');
+    }
+  }
+
+  async disableTotp(userId: number): Promise<void> {
+    try {
+      await db.transaction(async (tx: Transaction) => {
+        await tx
+          .update(users)
+          .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+          .where(eq(users.id, userId));
+        await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      });
+    } catch (error) {
+      console.error('Error disabling two-factor auth:', error);
+      throw new Error('Failed to disable two-factor auth');
+    }
+  }
+
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    try {
+      // Only moves forward, so two requests racing with the same code can't both succeed
+      const updated = await db
+        .update(users)
+        .set({ totpLastUsedStep: step })
+        .where(and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))
+        ))
+        .returning({ id: users.id });
+      return updated.length > 0;
+    } catch (error) {
+      console.error('Error recording TOTP use:', error);
+      throw new Error('Failed to record TOTP use');
+    }
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    try {
+      await db.transaction(async (tx: Transaction) => {
+        await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+        await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      });
+    } catch (error) {
+      console.error('Error replacing recovery codes:', error);
+      throw new Error('Failed to replace recovery codes');
+    }
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    try {
+      const [code] = await db
+        .update(recoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          isNull(recoveryCodes.usedAt)
+        ))
+        .returning({ id: recoveryCodes.id });
+      return Boolean(code);
+    } catch (error) {
+      console.error('Error consuming recovery code:', error);
+      throw new Error('Failed to consume recovery code');
+    }
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    try {
+      const [result] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(recoveryCodes)
+        .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+      return result?.count ?? 0;
+    } catch (error) {
+      console.error('Error counting recovery codes:', error);
+      throw new Error('Failed to count recovery codes');
+    }
+  }
+
+  // Login attempt methods
+  async recordLoginAttempt(scope: string, key: string, windowStart: Date): Promise<LoginAttempt> {
+    try {
+      const now = new Date();
+      // A window that has run out, or a lockout that has ended, starts the count again
+      const expired = sql`(${loginAttempts.windowStartedAt} < ${windowStart} OR ${loginAttempts.lockedUntil} <= ${now})`;
+
+      const [row] = await db
+        .insert(loginAttempts)
+        .values({ scope, key, attempts: 1, windowStartedAt: now, lastAttemptAt: now })
+        .onConflictDoUpdate({
+          target: [loginAttempts.scope, loginAttempts.key],
+          set: {
+            attempts: sql`CASE WHEN ${expired} THEN 1 ELSE ${loginAttempts.attempts} + 1 END`,
+            windowStartedAt: sql`CASE WHEN ${expired} THEN ${now} ELSE ${loginAttempts.windowStartedAt} END`,
+            lockedUntil: sql`CASE WHEN ${expired} THEN NULL ELSE ${loginAttempts.lockedUntil} END`,
+            lastAttemptAt: now,
+          },
+        })
+        .returning();
+      return row;
+    } catch (error) {
+      console.error('Error recording login attempt:', error);
+      throw new Error('Failed to record login attempt');
+    }
+  }
+
+  async getLoginAttempt(scope: string, key: string): Promise<LoginAttempt | undefined> {
+    try {
+      const [row] = await db
+        .select()
+        .from(loginAttempts)
+        .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key)));
+      return row;
+    } catch (error) {
+      console.error('Error fetching login attempts:', error);
+      throw new Error('Failed to fetch login attempts');
+    }
+  }
+
+  async lockLoginAttempts(scope: string, key: string, until: Date): Promise<void> {
+    try {
+      await db
+        .update(loginAttempts)
+        .set({ lockedUntil: until })
+        .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key)));
+    } catch (error) {
+      console.error('Error locking login attempts:', error);
+      throw new Error('Failed to lock login attempts');
+    }
+  }
+
+  async releaseLoginAttempt(scope: string, key: string): Promise<void> {
+    try {
+      await db
+        .update(loginAttempts)
+        .set({ attempts: sql`greatest(${loginAttempts.attempts} - 1, 0)` })
+        .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key)));
+    } catch (error) {
+      console.error('Error releasing login attempt:', error);
+      throw new Error('Failed to release login attempt');
+    }
+  }
+
+  async clearLoginAttempts(scope: string, key: string): Promise<boolean> {
+    try {
+      const deleted = await db
+        .delete(loginAttempts)
+        .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key)))
+        .returning({ key: loginAttempts.key });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error clearing login attempts:', error);
+      throw new Error('Failed to clear login attempts');
+    }
+  }
+
+  async getActiveLockouts(): Promise<LoginAttempt[]> {
+    try {
+      return await db
+        .select()
+        .from(loginAttempts)
+        .where(gt(loginAttempts.lockedUntil, new Date()))
+        .orderBy(desc(loginAttempts.lockedUntil));
+    } catch (error) {
+      console.error('Error fetching lockouts:', error);
+      throw new Error('Failed to fetch lockouts');
+    }
+  }
+
+  // Session methods
+  // Sessions page on (expire, publicId); the cursor's createdAt slot carries the expiry
+  async getUserSessions(userId: number, page: PageRequest<string>): Promise<Page<StoredSession>> {
+    try {
+      const result = await db.execute(sql`
+        SELECT * FROM (
+          SELECT sid, ${sessionPublicId} AS "publicId", sess, ${sessionExpire} AS expire FROM "session"
+          WHERE sess -> 'passport' ->> 'user' = ${String(userId)} AND expire > now()
+        ) AS user_sessions
+        ${page.cursor ? sql`WHERE (expire, "publicId") < (${page.cursor.createdAt.toISOString()}::timestamptz, ${page.cursor.id})` : sql``}
+        ORDER BY expire DESC, "publicId" DESC
+        LIMIT ${page.limit + 1}
+      `);
+      const rows = result.rows as unknown as StoredSession[];
+      const items = rows.slice(0, page.limit);
+      const last = items[items.length - 1];
+      return {
+        items,
+        nextCursor: rows.length > page.limit && last
+          ? encodeCursor({ createdAt: new Date(last.expire), id: last.publicId })
+          : null,
+      };
+    } catch (error) {
+      console.error('Error fetching user sessions:', error);
+      throw new Error('Failed to fetch sessions');
+    }
+  }
+
+  async getUserSession(userId: number, publicId: string): Promise<StoredSession | undefined> {
+    try {
+      const result = await db.execute(sql`
+        SELECT sid, ${sessionPublicId} AS "publicId", sess, ${sessionExpire} AS expire FROM "session"
+        WHERE sess -> 'passport' ->> 'user' = ${String(userId)} AND expire > now()
+          AND ${sessionPublicId} = ${publicId}
+      `);
+      return result.rows[0] as unknown as StoredSession | undefined;
+    } catch (error) {
+      console.error('Error fetching user session:', error);
+      throw new Error('Failed to fetch session');
+    }
+  }
+
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    try {
+      // Sessions live in connect-pg-simple's table; passport keeps the user id under sess.passport.user
+      const result = await db.execute(sql`
+        DELETE FROM "session"
+        WHERE sess -> 'passport' ->> 'user' = ${String(userId)}
+        ${exceptSessionId ? sql`AND sid <> ${exceptSessionId}` : sql``}
+      `);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error destroying user sessions:', error);
+      throw new Error('Failed to destroy user sessions');
     }
   }
 }
@@ -0,0 +1,152 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { storage, UniqueViolationError } from './storage';
+import { pageQuerySchema } from './pagination';
+import { tagNameSchema, type Tag } from '@shared/schema';
+
+const router = Router();
+
+const renameTagSchema = z.object({
+  name: tagNameSchema
+});
+
+const mergeTagSchema = z.object({
+  into: z.number().int().positive()
+});
+
+function parseId(value: string): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// Other users' tags are reported as missing so their ids don't leak
+async function getOwnedTag(id: number | undefined, userId: number): Promise<Tag | undefined> {
+  const tag = id ? await storage.getTag(id) : undefined;
+  return tag && tag.userId === userId ? tag : undefined;
+}
+
+const listTagsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const page = await storage.getTagsWithCounts(req.user!.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+};
+
+const listTagSnippetsHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = pageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid pagination query', details: parsed.error.errors });
+      return;
+    }
+
+    const tag = await getOwnedTag(parseId(req.params.id), req.user!.id);
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    const page = await storage.getSnippetsByTag(tag.id, parsed.data);
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching tagged snippets:', error);
+    res.status(500).json({ error: 'Failed to fetch tagged snippets' });
+  }
+};
+
+const renameTagHandler: RequestHandler = async (req, res) => {
+  try {
+    const { name } = renameTagSchema.parse(req.body);
+    const tag = await getOwnedTag(parseId(req.params.id), req.user!.id);
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    // Renaming onto an existing tag would need its snippets combined; that is what merge is for
+    const existing = await storage.getTagByName(req.user!.id, name);
+    if (existing && existing.id !== tag.id) {
+      res.status(409).json({ error: 'A tag with that name already exists; merge the tags instead', tagId: existing.id });
+      return;
+    }
+
+    try {
+      const renamed = await storage.renameTag(tag.id, name);
+      res.json(renamed);
+    } catch (error) {
+      if (!(error instanceof UniqueViolationError)) throw error;
+      // Another request took the name between the check above and the write
+      const taken = await storage.getTagByName(req.user!.id, name);
+      res.status(409).json({ error: 'A tag with that name already exists; merge the tags instead', tagId: taken?.id });
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid tag data', details: error.errors });
+      return;
+    }
+    console.error('Error renaming tag:', error);
+    res.status(500).json({ error: 'Failed to rename tag' });
+  }
+};
+
+// Moves every snippet from this tag onto the target tag, then deletes this one
+const mergeTagHandler: RequestHandler = async (req, res) => {
+  try {
+    const { into } = mergeTagSchema.parse(req.body);
+    const [source, target] = await Promise.all([
+      getOwnedTag(parseId(req.params.id), req.user!.id),
+      getOwnedTag(into, req.user!.id)
+    ]);
+    if (!source || !target) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+    if (source.id === target.id) {
+      res.status(400).json({ error: 'Cannot merge a tag into itself' });
+      return;
+    }
+
+    await storage.mergeTags(source.id, target.id);
+    res.json(target);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid merge request', details: error.errors });
+      return;
+    }
+    console.error('Error merging tags:', error);
+    res.status(500).json({ error: 'Failed to merge tags' });
+  }
+};
+
+const deleteTagHandler: RequestHandler = async (req, res) => {
+  try {
+    const tag = await getOwnedTag(parseId(req.params.id), req.user!.id);
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    await storage.deleteTag(tag.id);
+    res.sendStatus(204);
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Failed to delete tag' });
+  }
+};
+
+router.get('/', listTagsHandler);
+router.get('/:id/snippets', listTagSnippetsHandler);
+router.patch('/:id', renameTagHandler);
+router.post('/:id/merge', mergeTagHandler);
+router.delete('/:id', deleteTagHandler);
+
+export default router;
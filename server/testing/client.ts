@@ -0,0 +1,68 @@
+import type { Express } from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// Serves an Express app on a random local port and talks to it like a browser would,
+// keeping session cookies between requests
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+export interface TestClient {
+  url: string;
+  request(method: string, path: string, body?: unknown): Promise<TestResponse>;
+  // Drops stored cookies, as if a different browser were making the next request
+  clearCookies(): void;
+  close(): Promise<void>;
+}
+
+export async function startTestClient(app: Express): Promise<TestClient> {
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+  const cookies = new Map<string, string>();
+
+  return {
+    url,
+    async request(method, path, body) {
+      const response = await fetch(`${url}${path}`, {
+        method,
+        redirect: 'manual',
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(cookies.size > 0 && {
+            Cookie: Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; ')
+          })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+
+      for (const cookie of response.headers.getSetCookie()) {
+        const [pair] = cookie.split(';');
+        const separator = pair.indexOf('=');
+        cookies.set(pair.slice(0, separator), pair.slice(separator + 1));
+      }
+
+      const text = await response.text();
+      let parsed: unknown = text;
+      try {
+        parsed = text ? JSON.parse(text) : undefined;
+      } catch {
+        // Not JSON; leave the raw text
+      }
+      return { status: response.status, headers: response.headers, body: parsed };
+    },
+    clearCookies() {
+      cookies.clear();
+    },
+    close: () => new Promise((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((err) => (err ? reject(err) : resolve()));
+    })
+  };
+}
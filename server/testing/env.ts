@@ -0,0 +1,4 @@
+// Imported first by tests that load the storage layer: run against the in-memory
+// database stub in server/db.ts instead of requiring DATABASE_URL.
+process.env.NODE_ENV = 'development';
+process.env.SKIP_DB_CONNECTION = 'true';
@@ -0,0 +1,78 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+// A throwaway local HTTP server that plays the part of an external API in tests
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  // Parsed as JSON when possible, otherwise the raw text
+  body: any;
+}
+
+export type StandInHandler = (request: RecordedRequest, res: ServerResponse) => void | Promise<void>;
+
+export interface StandIn {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  let text = '';
+  for await (const chunk of req) {
+    text += chunk;
+  }
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export async function startStandIn(handler: StandInHandler): Promise<StandIn> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer(async (req, res) => {
+    const request: RecordedRequest = {
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      headers: req.headers,
+      body: await readBody(req)
+    };
+    requests.push(request);
+    try {
+      await handler(request, res);
+    } catch (error) {
+      res.statusCode = 500;
+      res.end(String(error));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise((resolve, reject) => {
+      server.closeAllConnections();
+      server.close((err) => (err ? reject(err) : resolve()));
+    })
+  };
+}
+
+export function sendJson(res: ServerResponse, body: unknown, status = 200) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Writes a complete server-sent event stream and ends the response
+export function sendEvents(res: ServerResponse, events: Array<{ event?: string; data: string }>) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const { event, data } of events) {
+    res.write(`${event ? `event: ${event}\n` : ''}data: ${data}\n\n`);
+  }
+  res.end();
+}
@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from "crypto";
+
+// URL-safe random token with 256 bits of entropy
+export function generateToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Tokens are random, so a fast unsalted hash is enough to keep them out of the database
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
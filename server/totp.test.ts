@@ -0,0 +1,82 @@
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { base32Encode, base32Decode, generateTotp, timeStep, verifyTotp, otpauthUri } from "./totp";
+
+// The SHA1 seed from RFC 6238 appendix B
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+// RFC 6238 publishes 8-digit values; 6-digit codes are their last six digits
+const rfcVectors: [number, string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+describe("TOTP", () => {
+  test("matches the RFC 6238 test vectors", () => {
+    for (const [seconds, code] of rfcVectors) {
+      assert.equal(generateTotp(RFC_SECRET, timeStep(seconds * 1000)), code, `T=${seconds}`);
+    }
+  });
+
+  test("base32 round-trips and ignores case, padding and spaces", () => {
+    const bytes = Buffer.from("any secret bytes");
+    const encoded = base32Encode(bytes);
+    assert.deepEqual(base32Decode(encoded), bytes);
+    assert.deepEqual(base32Decode(`${encoded.toLowerCase().replace(/(.{4})/g, "$1 ")}==`), bytes);
+    assert.throws(() => base32Decode("not base32!"), /Invalid base32 character/);
+  });
+
+  test("accepts codes from one step either side of the clock", () => {
+    const now = 1111111111 * 1000;
+    const step = timeStep(now);
+
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now }), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), { now }), step);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now }), step + 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), { now }), null);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), { now }), null);
+  });
+
+  test("honours a wider or narrower drift window", () => {
+    const now = 1234567890 * 1000;
+    const step = timeStep(now);
+    const stale = generateTotp(RFC_SECRET, step - 2);
+
+    assert.equal(verifyTotp(RFC_SECRET, stale, { now, window: 2 }), step - 2);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now, window: 0 }), null);
+  });
+
+  test("rejects a code from a step that was already used", () => {
+    const now = 2000000000 * 1000;
+    const step = timeStep(now);
+    const code = generateTotp(RFC_SECRET, step);
+
+    assert.equal(verifyTotp(RFC_SECRET, code, { now, lastUsedStep: step }), null);
+    assert.equal(verifyTotp(RFC_SECRET, code, { now, lastUsedStep: step + 1 }), null);
+    assert.equal(verifyTotp(RFC_SECRET, code, { now, lastUsedStep: step - 1 }), step);
+    // A later code is still fine after an earlier one was used
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now, lastUsedStep: step }), step + 1);
+  });
+
+  test("rejects malformed codes", () => {
+    const now = 59 * 1000;
+    assert.equal(verifyTotp(RFC_SECRET, "28708", { now }), null);
+    assert.equal(verifyTotp(RFC_SECRET, "2870820", { now }), null);
+    assert.equal(verifyTotp(RFC_SECRET, "28708a", { now }), null);
+    assert.equal(verifyTotp(RFC_SECRET, "287 082", { now }), timeStep(now));
+  });
+
+  test("builds an otpauth URI authenticator apps understand", () => {
+    const uri = new URL(otpauthUri("JBSWY3DPEHPK3PXP", "alice", "Code Gen"));
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.host, "totp");
+    assert.equal(decodeURIComponent(uri.pathname), "/Code Gen:alice");
+    assert.equal(uri.searchParams.get("secret"), "JBSWY3DPEHPK3PXP");
+    assert.equal(uri.searchParams.get("issuer"), "Code Gen");
+    assert.equal(uri.searchParams.get("period"), "30");
+  });
+});
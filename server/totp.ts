@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// RFC 6238 time-based one-time passwords with the parameters every authenticator app
+// supports: HMAC-SHA1, 6 digits, 30 second steps.
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function timeStep(now: number): number {
+  return Math.floor(now / 1000 / PERIOD_SECONDS);
+}
+
+// HOTP (RFC 4226) for the given counter, which for TOTP is the time step
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const digest = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export interface VerifyTotpOptions {
+  now: number;
+  // Steps of clock drift tolerated either side of the current one
+  window?: number;
+  // Codes from this step or earlier are rejected, so a code can't be replayed
+  lastUsedStep?: number | null;
+}
+
+// Returns the matching time step, or null if the code is invalid
+export function verifyTotp(secret: string, code: string, options: VerifyTotpOptions): number | null {
+  const normalised = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalised) || normalised.length !== DIGITS) {
+    return null;
+  }
+
+  const current = timeStep(options.now);
+  const window = options.window ?? 1;
+
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(normalised))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function otpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,276 @@
+import "./testing/env";
+import { test, describe, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import session from "express-session";
+import passport from "passport";
+import type { User, LoginAttempt } from "@shared/schema";
+import { storage } from "./storage";
+import { setupTwoFactor } from "./twoFactor";
+import { generateTotp, timeStep } from "./totp";
+import { TWO_FACTOR_LOGIN_TTL_MS } from "./auth";
+import { startTestClient, type TestClient } from "./testing/client";
+
+// In-memory stand-ins for the storage methods the 2FA routes use
+const users = new Map<number, User>();
+const recoveryCodes: { userId: number; codeHash: string; usedAt: Date | null }[] = [];
+const loginAttempts = new Map<string, LoginAttempt>();
+
+function resetStore() {
+  users.clear();
+  recoveryCodes.length = 0;
+  loginAttempts.clear();
+  users.set(1, {
+    id: 1,
+    username: "alice",
+    email: "alice@example.com",
+    password: "unused",
+    emailVerifiedAt: new Date(),
+    emailGrandfathered: false,
+    role: "user",
+    totpSecret: null,
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+    isSubscribed: false,
+    stripeCustomerId: "",
+    stripeSubscriptionId: "",
+    subscriptionEndDate: null,
+    createdAt: new Date(),
+  });
+}
+
+function installFakeStorage() {
+  const user = (id: number) => users.get(id)!;
+
+  mock.method(storage, "getUser", async (id: number) => users.get(id) && { ...users.get(id)! });
+  mock.method(storage, "setPendingTotpSecret", async (id: number, secret: string) => {
+    user(id).totpSecret = secret;
+  });
+  mock.method(storage, "enableTotp", async (id: number, step: number, hashes: string[]) => {
+    if (user(id).totpEnabledAt) return false;
+    Object.assign(user(id), { totpEnabledAt: new Date(), totpLastUsedStep: step });
+    recoveryCodes.push(...hashes.map((codeHash) => ({ userId: id, codeHash, usedAt: null })));
+    return true;
+  });
+  mock.method(storage, "disableTotp", async (id: number) => {
+    Object.assign(user(id), { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+  });
+  mock.method(storage, "recordTotpStep", async (id: number, step: number) => {
+    const last = user(id).totpLastUsedStep;
+    if (last !== null && last >= step) return false;
+    user(id).totpLastUsedStep = step;
+    return true;
+  });
+  mock.method(storage, "replaceRecoveryCodes", async (id: number, hashes: string[]) => {
+    recoveryCodes.splice(0, recoveryCodes.length, ...recoveryCodes.filter((code) => code.userId !== id));
+    recoveryCodes.push(...hashes.map((codeHash) => ({ userId: id, codeHash, usedAt: null })));
+  });
+  mock.method(storage, "consumeRecoveryCode", async (id: number, codeHash: string) => {
+    const code = recoveryCodes.find((c) => c.userId === id && c.codeHash === codeHash && !c.usedAt);
+    if (!code) return false;
+    code.usedAt = new Date();
+    return true;
+  });
+  mock.method(storage, "countUnusedRecoveryCodes", async (id: number) =>
+    recoveryCodes.filter((code) => code.userId === id && !code.usedAt).length
+  );
+  mock.method(storage, "getLoginAttempt", async (scope: string, key: string) => loginAttempts.get(`${scope}:${key}`));
+  mock.method(storage, "recordLoginAttempt", async (scope: string, key: string) => {
+    const now = new Date();
+    const existing = loginAttempts.get(`${scope}:${key}`);
+    const attempt = existing
+      ? { ...existing, attempts: existing.attempts + 1, lastAttemptAt: now }
+      : { scope, key, attempts: 1, windowStartedAt: now, lastAttemptAt: now, lockedUntil: null };
+    loginAttempts.set(`${scope}:${key}`, attempt);
+    return attempt;
+  });
+  mock.method(storage, "lockLoginAttempts", async (scope: string, key: string, until: Date) => {
+    const attempt = loginAttempts.get(`${scope}:${key}`);
+    if (attempt) attempt.lockedUntil = until;
+  });
+  mock.method(storage, "releaseLoginAttempt", async (scope: string, key: string) => {
+    const attempt = loginAttempts.get(`${scope}:${key}`);
+    if (attempt) attempt.attempts = Math.max(attempt.attempts - 1, 0);
+  });
+  mock.method(storage, "clearLoginAttempts", async (scope: string, key: string) =>
+    loginAttempts.delete(`${scope}:${key}`)
+  );
+}
+
+describe("two-factor routes", () => {
+  // Fixed clock the routes read through the injected function; tests move it by hand
+  let now = 1_700_000_000_000;
+  let client: TestClient;
+
+  before(async () => {
+    installFakeStorage();
+
+    const app = express();
+    app.use(express.json());
+    app.use(session({ secret: "test", resave: false, saveUninitialized: false }));
+    app.use(passport.initialize());
+    app.use(passport.session());
+    passport.serializeUser((user, done) => done(null, user.id));
+    passport.deserializeUser(async (id: number, done) => done(null, await storage.getUser(id)));
+
+    // Stand-ins for the password step handled by /api/login in auth.ts
+    app.post("/test/login", (req, res, next) => {
+      req.login(users.get(1)!, (err) => (err ? next(err) : res.sendStatus(204)));
+    });
+    app.post("/test/password-ok", (req, res) => {
+      req.session.pendingTwoFactor = { userId: 1, expiresAt: now + TWO_FACTOR_LOGIN_TTL_MS, attempts: 0 };
+      res.json({ twoFactorRequired: true });
+    });
+    app.get("/test/whoami", (req, res) => res.json({ userId: req.user?.id ?? null }));
+
+    setupTwoFactor(app, () => now);
+    client = await startTestClient(app);
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await client.close();
+  });
+
+  beforeEach(() => {
+    resetStore();
+    client.clearCookies();
+  });
+
+  // Enrolls alice and returns her secret and recovery codes, leaving the client logged out
+  async function enroll(): Promise<{ secret: string; recoveryCodes: string[] }> {
+    await client.request("POST", "/test/login");
+    const enrollment = await client.request("POST", "/api/2fa/enroll");
+    assert.equal(enrollment.status, 200);
+    const { secret } = enrollment.body;
+
+    const confirm = await client.request("POST", "/api/2fa/confirm", {
+      code: generateTotp(secret, timeStep(now)),
+    });
+    assert.equal(confirm.status, 200);
+    client.clearCookies();
+    return { secret, recoveryCodes: confirm.body.recoveryCodes };
+  }
+
+  async function secondStep(body: Record<string, string>) {
+    await client.request("POST", "/test/password-ok");
+    return client.request("POST", "/api/login/2fa", body);
+  }
+
+  test("enrolls with an otpauth URI and enables 2FA once a code is confirmed", async () => {
+    await client.request("POST", "/test/login");
+    const enrollment = await client.request("POST", "/api/2fa/enroll");
+    assert.match(enrollment.body.otpauthUri, /^otpauth:\/\/totp\//);
+    assert.equal((await client.request("GET", "/api/2fa")).body.enabled, false);
+
+    const wrong = await client.request("POST", "/api/2fa/confirm", { code: "000000" });
+    assert.equal(wrong.status, 400);
+
+    const confirm = await client.request("POST", "/api/2fa/confirm", {
+      code: generateTotp(enrollment.body.secret, timeStep(now)),
+    });
+    assert.equal(confirm.status, 200);
+    assert.equal(confirm.body.recoveryCodes.length, 10);
+    // Only hashes are stored
+    assert.ok(recoveryCodes.every(({ codeHash }) => !confirm.body.recoveryCodes.includes(codeHash)));
+
+    const status = await client.request("GET", "/api/2fa");
+    assert.deepEqual(status.body, { enabled: true, recoveryCodesRemaining: 10 });
+  });
+
+  test("tolerates one step of clock drift but no more", async () => {
+    const { secret } = await enroll();
+    now += 90_000;
+    const current = timeStep(now);
+
+    const behind = await secondStep({ code: generateTotp(secret, current - 1) });
+    assert.equal(behind.status, 200);
+
+    client.clearCookies();
+    const ahead = await secondStep({ code: generateTotp(secret, current + 1) });
+    assert.equal(ahead.status, 200);
+
+    now += 5 * 30_000;
+    client.clearCookies();
+    const tooOld = await secondStep({ code: generateTotp(secret, timeStep(now) - 2) });
+    assert.equal(tooOld.status, 401);
+
+    client.clearCookies();
+    const tooFarAhead = await secondStep({ code: generateTotp(secret, timeStep(now) + 2) });
+    assert.equal(tooFarAhead.status, 401);
+  });
+
+  test("rejects a code whose step was already used", async () => {
+    const { secret } = await enroll();
+
+    // The confirmation code's step is spent; a fresh step is needed to log in
+    now += 30_000;
+    const code = generateTotp(secret, timeStep(now));
+    const first = await secondStep({ code });
+    assert.equal(first.status, 200);
+    assert.equal((await client.request("GET", "/test/whoami")).body.userId, 1);
+
+    client.clearCookies();
+    const replay = await secondStep({ code });
+    assert.equal(replay.status, 401);
+    assert.equal((await client.request("GET", "/test/whoami")).body.userId, null);
+
+    // Nor can an older step be used once a newer one has been
+    client.clearCookies();
+    const older = await secondStep({ code: generateTotp(secret, timeStep(now) - 1) });
+    assert.equal(older.status, 401);
+  });
+
+  test("accepts each recovery code exactly once", async () => {
+    const { recoveryCodes: codes } = await enroll();
+
+    // Codes are accepted regardless of case or the dash
+    const first = await secondStep({ recoveryCode: codes[0].toUpperCase().replace("-", "") });
+    assert.equal(first.status, 200);
+
+    client.clearCookies();
+    const reused = await secondStep({ recoveryCode: codes[0] });
+    assert.equal(reused.status, 401);
+
+    client.clearCookies();
+    const another = await secondStep({ recoveryCode: codes[1] });
+    assert.equal(another.status, 200);
+    assert.equal((await client.request("GET", "/api/2fa")).body.recoveryCodesRemaining, 8);
+  });
+
+  test("throttles wrong codes when disabling 2FA", async () => {
+    const { secret } = await enroll();
+    await client.request("POST", "/test/login");
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await client.request("POST", "/api/2fa/disable", { code: "000000" })).status, 400);
+    }
+    now += 30_000;
+    const throttled = await client.request("POST", "/api/2fa/disable", { code: generateTotp(secret, timeStep(now)) });
+    assert.equal(throttled.status, 429);
+    assert.ok(users.get(1)!.totpEnabledAt);
+  });
+
+  test("expires the pending login after the TTL", async () => {
+    const { secret } = await enroll();
+    await client.request("POST", "/test/password-ok");
+
+    now += TWO_FACTOR_LOGIN_TTL_MS + 30_000;
+    const late = await client.request("POST", "/api/login/2fa", { code: generateTotp(secret, timeStep(now)) });
+    assert.equal(late.status, 401);
+    assert.equal(late.body.error, "No login is waiting for a two-factor code");
+  });
+
+  test("drops the pending login after too many wrong codes", async () => {
+    await enroll();
+    await client.request("POST", "/test/password-ok");
+
+    for (let i = 0; i < 5; i++) {
+      // Keep the per-username throttle out of the way; this is about the per-login limit
+      loginAttempts.clear();
+      assert.equal((await client.request("POST", "/api/login/2fa", { code: "000000" })).body.error, "Invalid code");
+    }
+    const after = await client.request("POST", "/api/login/2fa", { code: "000000" });
+    assert.equal(after.body.error, "No login is waiting for a two-factor code");
+  });
+});
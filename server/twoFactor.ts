@@ -0,0 +1,245 @@
+import { Express } from "express";
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { requireAuth, toPublicUser } from "./auth";
+import { hashToken } from "./tokens";
+import { generateTotpSecret, otpauthUri, verifyTotp } from "./totp";
+import {
+  checkThrottle,
+  reserveAttempts,
+  settleSuccessfulLogin,
+  sendTooManyAttempts,
+  loginThrottleKeys,
+} from "./loginThrottle";
+import { touchSession } from "./sessions";
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "AI Code Generator";
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes allowed in the second login step before the password has to be entered again
+const MAX_LOGIN_CODE_ATTEMPTS = 5;
+
+const confirmSchema = z.object({
+  code: z.string().min(1),
+});
+
+const secondFactorSchema = z.object({
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+}).refine((data) => data.code || data.recoveryCode, {
+  message: "A code or recovery code is required",
+});
+
+type SecondFactor = z.infer<typeof secondFactorSchema>;
+
+// Recovery codes are shown as "xxxxx-xxxxx" but accepted in any case, with or without the dash
+function normaliseRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(normaliseRecoveryCode(code));
+}
+
+// Checks a TOTP code or a recovery code for an enrolled user, using each up at most once
+async function verifySecondFactor(user: Express.User, input: SecondFactor, now: number): Promise<boolean> {
+  if (input.code) {
+    const step = user.totpSecret
+      ? verifyTotp(user.totpSecret, input.code, { now, lastUsedStep: user.totpLastUsedStep })
+      : null;
+    return step !== null && await storage.recordTotpStep(user.id, step);
+  }
+  if (input.recoveryCode) {
+    return storage.consumeRecoveryCode(user.id, hashRecoveryCode(input.recoveryCode));
+  }
+  return false;
+}
+
+// The clock is injectable so code checks can be exercised at fixed times
+export function setupTwoFactor(app: Express, clock: () => number = Date.now) {
+  app.get("/api/2fa", requireAuth, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      res.json({
+        enabled: Boolean(user.totpEnabledAt),
+        recoveryCodesRemaining: user.totpEnabledAt ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/enroll", requireAuth, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor auth is already enabled" });
+      }
+
+      // Starting again replaces any enrollment that was never confirmed
+      const secret = generateTotpSecret();
+      await storage.setPendingTotpSecret(user.id, secret);
+
+      res.json({ secret, otpauthUri: otpauthUri(secret, user.username, TOTP_ISSUER) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/confirm", requireAuth, async (req, res, next) => {
+    try {
+      const parsed = confirmSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A code is required" });
+      }
+
+      const user = req.user!;
+      if (user.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor auth is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ error: "Two-factor enrollment has not been started" });
+      }
+
+      const step = verifyTotp(user.totpSecret, parsed.data.code, { now: clock() });
+      if (step === null) {
+        return res.status(400).json({ error: "Invalid code" });
+      }
+
+      // Plaintext codes are only ever returned here
+      const codes = generateRecoveryCodes();
+      const enabled = await storage.enableTotp(user.id, step, codes.map(hashRecoveryCode));
+      if (!enabled) {
+        return res.status(409).json({ error: "Two-factor auth is already enabled" });
+      }
+
+      res.json({ message: "Two-factor auth enabled", recoveryCodes: codes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/disable", requireAuth, async (req, res, next) => {
+    try {
+      const parsed = secondFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A code or recovery code is required" });
+      }
+
+      const user = req.user!;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor auth is not enabled" });
+      }
+
+      // Wrong codes count against the login limits, so a hijacked session can't guess its way past 2FA
+      const throttleKeys = loginThrottleKeys(req.ip, user.username);
+      const waitMs = await checkThrottle(throttleKeys) || await reserveAttempts(throttleKeys);
+      if (waitMs > 0) {
+        return sendTooManyAttempts(res, waitMs);
+      }
+      if (!(await verifySecondFactor(user, parsed.data, clock()))) {
+        return res.status(400).json({ error: "Invalid code" });
+      }
+      settleSuccessfulLogin(req.ip, user.username).catch((error) => {
+        console.error("Error clearing login attempts:", error);
+      });
+
+      await storage.disableTotp(user.id);
+      res.json({ message: "Two-factor auth disabled" });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", requireAuth, async (req, res, next) => {
+    try {
+      const parsed = secondFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A code or recovery code is required" });
+      }
+
+      const user = req.user!;
+      if (!user.totpEnabledAt) {
+        return res.status(400).json({ error: "Two-factor auth is not enabled" });
+      }
+
+      // Wrong codes count against the login limits here too
+      const throttleKeys = loginThrottleKeys(req.ip, user.username);
+      const waitMs = await checkThrottle(throttleKeys) || await reserveAttempts(throttleKeys);
+      if (waitMs > 0) {
+        return sendTooManyAttempts(res, waitMs);
+      }
+      if (!(await verifySecondFactor(user, parsed.data, clock()))) {
+        return res.status(400).json({ error: "Invalid code" });
+      }
+      settleSuccessfulLogin(req.ip, user.username).catch((error) => {
+        console.error("Error clearing login attempts:", error);
+      });
+
+      // New codes replace the old set entirely
+      const codes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, codes.map(hashRecoveryCode));
+      res.json({ recoveryCodes: codes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Second step of the login started by /api/login
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const parsed = secondFactorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "A code or recovery code is required" });
+      }
+
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt <= clock()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "No login is waiting for a two-factor code" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.totpEnabledAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "No login is waiting for a two-factor code" });
+      }
+
+      // Wrong codes count against the same limits as wrong passwords, reserved the same way
+      const throttleKeys = loginThrottleKeys(req.ip, user.username);
+      const waitMs = await checkThrottle(throttleKeys) || await reserveAttempts(throttleKeys);
+      if (waitMs > 0) {
+        return sendTooManyAttempts(res, waitMs);
+      }
+
+      if (!(await verifySecondFactor(user, parsed.data, clock()))) {
+        pending.attempts += 1;
+        if (pending.attempts >= MAX_LOGIN_CODE_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+        }
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      settleSuccessfulLogin(req.ip, user.username).catch((error) => {
+        console.error("Error clearing login attempts:", error);
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        touchSession(req);
+        res.status(200).json(toPublicUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
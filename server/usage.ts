@@ -0,0 +1,48 @@
+import { storage } from './storage';
+import type { InsertUsageEvent } from '@shared/schema';
+
+type UsageContext = Pick<InsertUsageEvent, 'userId' | 'kind' | 'modelId' | 'language'> & {
+  prompt: string;
+};
+
+// Run a generation and record a usage event for it, whether it succeeds or fails.
+// Recording happens in the background so metering never slows down or breaks a request.
+export async function meterUsage(context: UsageContext, run: () => Promise<string>): Promise<string> {
+  const { prompt, ...event } = context;
+  const start = Date.now();
+
+  const record = (success: boolean, responseChars: number, errorMessage?: string) => {
+    storage.createUsageEvent({
+      ...event,
+      promptChars: prompt.length,
+      responseChars,
+      latencyMs: Date.now() - start,
+      success,
+      errorMessage: errorMessage ?? null,
+    }).catch((error) => console.error('Error recording usage event:', error));
+  };
+
+  try {
+    const result = await run();
+    record(true, result.length);
+    return result;
+  } catch (error: any) {
+    record(false, 0, error?.message || 'Unknown error occurred');
+    throw error;
+  }
+}
+
+// Cache hits are recorded too, so usage still counts every request. No provider was called,
+// so they carry no latency.
+export function recordCachedUsage(context: UsageContext, responseChars: number) {
+  const { prompt, ...event } = context;
+  storage.createUsageEvent({
+    ...event,
+    promptChars: prompt.length,
+    responseChars,
+    latencyMs: 0,
+    success: true,
+    errorMessage: null,
+    cached: true,
+  }).catch((error) => console.error('Error recording usage event:', error));
+}
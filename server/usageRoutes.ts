@@ -0,0 +1,49 @@
+import { Router, RequestHandler } from 'express';
+import { z } from 'zod';
+import { storage } from './storage';
+import { isAdmin } from './auth';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // "all" aggregates every user's usage and is restricted to admins
+  scope: z.enum(['self', 'all']).optional().default('self')
+});
+
+const getUsageHandler: RequestHandler = async (req, res) => {
+  try {
+    const parsed = usageQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid usage query', details: parsed.error.errors });
+      return;
+    }
+
+    const { scope } = parsed.data;
+    if (scope === 'all' && !isAdmin(req.user!)) {
+      res.status(403).json({ error: 'Admin access required' });
+      return;
+    }
+
+    // Defaults to the last 30 days; `to` is exclusive
+    const to = parsed.data.to ?? new Date();
+    const from = parsed.data.from ?? new Date(to.getTime() - 30 * DAY_MS);
+    if (from >= to || to.getTime() - from.getTime() > 366 * DAY_MS) {
+      res.status(400).json({ error: 'Usage range must be positive and at most one year' });
+      return;
+    }
+
+    const days = await storage.getUsageSummary(from, to, scope === 'all' ? undefined : req.user!.id);
+    res.json({ from: from.toISOString(), to: to.toISOString(), scope, days });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+};
+
+router.get('/', getUsageHandler);
+
+export default router;
@@ -1,7 +1,7 @@
-import { pgTable, text, serial, timestamp, json, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, json, integer, boolean, real, date, primaryKey, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // User model with more strict validation
 export const users = pgTable("users", {
@@ -9,11 +9,29 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Signed up before verification was required: exempt from the plan and model checks, but
+  // never treated as owning the address
+  emailGrandfathered: boolean("email_grandfathered").default(false).notNull(),
+  role: text("role").default("user").notNull(), // one of userRoles
+  // TOTP two-factor auth: the secret is set at enrollment, but only enforced once confirmed
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastUsedStep: integer("totp_last_used_step"),
   isSubscribed: boolean("is_subscribed").default(false).notNull(),
   stripeCustomerId: text("stripe_customer_id").notNull().default(''),
   stripeSubscriptionId: text("stripe_subscription_id").notNull().default(''),
   subscriptionEndDate: timestamp("subscription_end_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Backs the case-insensitive email lookups
+  emailLowerIdx: index("users_email_lower_idx").on(sql`lower(${table.email})`),
+}));
+
+// Values the app records once and then keeps, such as when email verification became required
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
 });
 
 // Subscription plans with stricter validation
@@ -24,8 +42,21 @@ export const plans = pgTable("plans", {
   price: integer("price").notNull(),
   features: json("features").$type<string[]>().notNull(),
   stripePriceId: text("stripe_price_id").notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
 });
 
+// Full-text search vectors. Queries must use these same expressions for Postgres to pick the
+// GIN indexes. The 'simple' config skips stemming, which suits identifiers in code.
+export function snippetSearchVector(columns: { title: AnyPgColumn; code: AnyPgColumn }) {
+  return sql`(setweight(to_tsvector('simple', ${columns.title}), 'A') || setweight(to_tsvector('simple', ${columns.code}), 'B'))`;
+}
+
+// Only message content is indexed; the role values would otherwise make every conversation
+// match "user" and "assistant". A jsonpath keeps this a plain expression an index can use.
+export function conversationSearchVector(columns: { title: AnyPgColumn; messages: AnyPgColumn }) {
+  return sql`(setweight(to_tsvector('simple', ${columns.title}), 'A') || setweight(jsonb_to_tsvector('simple', jsonb_path_query_array(${columns.messages}::jsonb, '$[*].content'), '["string"]'), 'B'))`;
+}
+
 // Code snippets with improved schema
 export const snippets = pgTable("snippets", {
   id: serial("id").primaryKey(),
@@ -33,8 +64,72 @@ export const snippets = pgTable("snippets", {
   title: text("title").notNull(),
   code: text("code").notNull(),
   language: text("language").notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  visibility: text("visibility").default("private").notNull(), // one of snippetVisibilities
+  shareSlug: text("share_slug").unique(), // set once the snippet is first shared
+  forkedFromId: integer("forked_from_id").references((): AnyPgColumn => snippets.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  searchIdx: index("snippets_search_idx").using("gin", snippetSearchVector(table)),
+  userCreatedIdx: index("snippets_user_created_idx").on(table.userId, table.createdAt, table.id),
+  visibilityCreatedIdx: index("snippets_visibility_created_idx").on(table.visibility, table.createdAt, table.id),
+}));
+
+// Every saved state of a snippet, numbered from 1; the highest version is the current one
+export const snippetVersions = pgTable("snippet_versions", {
+  id: serial("id").primaryKey(),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  code: text("code").notNull(),
+  language: text("language").notNull(),
+  generatedBy: text("generated_by"), // model ID when the revision came from an AI model
+  restoredFrom: integer("restored_from"), // version this one was restored from
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  snippetVersionIdx: uniqueIndex("snippet_versions_snippet_version_idx").on(table.snippetId, table.version),
+  snippetCreatedIdx: index("snippet_versions_snippet_created_idx").on(table.snippetId, table.createdAt, table.id),
+}));
+
+// Per-user tags, stored lowercased so "Regex" and "regex" are the same tag
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  userNameIdx: uniqueIndex("tags_user_name_idx").on(table.userId, table.name),
+  userCreatedIdx: index("tags_user_created_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+// The tag_id index keeps per-tag counts and listings to an index scan
+export const snippetTags = pgTable("snippet_tags", {
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.snippetId, table.tagId] }),
+  tagIdx: index("snippet_tags_tag_idx").on(table.tagId),
+}));
+
+// Named, user-owned groups of snippets
+export const collections = pgTable("collections", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description").default("").notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  userNameIdx: uniqueIndex("collections_user_name_idx").on(table.userId, table.name),
+  userCreatedIdx: index("collections_user_created_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+export const collectionSnippets = pgTable("collection_snippets", {
+  collectionId: integer("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  addedAt: timestamp("added_at").defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.collectionId, table.snippetId] }),
+  snippetIdx: index("collection_snippets_snippet_idx").on(table.snippetId),
+}));
 
 // Chat conversations with message type safety
 export const conversations = pgTable("conversations", {
@@ -42,8 +137,11 @@ export const conversations = pgTable("conversations", {
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   messages: json("messages").$type<Array<{ role: 'user' | 'assistant'; content: string }>>().notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  searchIdx: index("conversations_search_idx").using("gin", conversationSearchVector(table)),
+  userCreatedIdx: index("conversations_user_created_idx").on(table.userId, table.createdAt, table.id),
+}));
 
 // AI models with type safety
 export const aiModels = pgTable("ai_models", {
@@ -51,8 +149,116 @@ export const aiModels = pgTable("ai_models", {
   name: text("name").notNull(),
   description: text("description").notNull(),
   type: text("type").notNull(), // "code", "chat", "image-to-code"
+  provider: text("provider").notNull(), // key of the adapter in server/providers
+  modelId: text("model_id").notNull().unique(), // provider-side model identifier
+  maxTokens: integer("max_tokens").default(1000).notNull(),
+  temperature: real("temperature").default(0.2).notNull(),
+  tags: json("tags").$type<string[]>().default([]).notNull(),
   isDefault: boolean("is_default").default(false).notNull(),
   requiresSubscription: boolean("requires_subscription").default(false).notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  typeCreatedIdx: index("ai_models_type_created_idx").on(table.type, table.createdAt, table.id),
+}));
+
+// Single-use tokens mailed to users (e.g. password resets). Only a hash of the token is
+// stored, so a database leak can't be turned into account takeovers.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull(), // "password-reset", "email-verification"
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Personal access tokens for programmatic access. As with auth tokens only a hash is
+// kept; the prefix is stored in the clear so users can tell their tokens apart.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: json("scopes").$type<string[]>().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index("api_tokens_user_created_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+// Accounts at external identity providers (OIDC) linked to local users
+export const userIdentities = pgTable("user_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(), // issuer URL
+  subject: text("subject").notNull(),
+  email: text("email"),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  providerSubjectIdx: uniqueIndex("user_identities_provider_subject_idx").on(table.provider, table.subject),
+  userCreatedIdx: index("user_identities_user_created_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+// One-time recovery codes for accounts with two-factor auth, stored hashed
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Failed login and registration attempts per IP or username, shared by every instance
+export const loginAttempts = pgTable("login_attempts", {
+  scope: text("scope").notNull(), // "login-ip", "login-username", "register-ip"
+  key: text("key").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  windowStartedAt: timestamp("window_started_at").defaultNow().notNull(),
+  lastAttemptAt: timestamp("last_attempt_at").defaultNow().notNull(),
+  lockedUntil: timestamp("locked_until"),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.scope, table.key] }),
+}));
+
+// Per-user AI request counters, one row per UTC day, used to enforce plan quotas
+export const dailyRequestCounts = pgTable("daily_request_counts", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  day: date("day", { mode: "string" }).notNull(),
+  count: integer("count").default(0).notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.day] }),
+}));
+
+// One row per AI request, for cost attribution and provider latency tracking
+export const usageEvents = pgTable("usage_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: text("kind").notNull(), // "generate-code", "image-to-code", "chat"
+  modelId: text("model_id").notNull(),
+  language: text("language"),
+  promptChars: integer("prompt_chars").notNull(),
+  responseChars: integer("response_chars").default(0).notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+  success: boolean("success").notNull(),
+  errorMessage: text("error_message"),
+  // Served from the generation cache, so no provider was called
+  cached: boolean("cached").default(false).notNull(),
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  userCreatedIdx: index("usage_events_user_created_idx").on(table.userId, table.createdAt, table.id),
+}));
+
+// Shared cache of generated code, used when GENERATION_CACHE=postgres
+export const generationCache = pgTable("generation_cache", {
+  key: text("key").primaryKey(), // sha256 of the normalised request
+  text: text("text").notNull(),
+  modelId: text("model_id").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Define relations without explicit RelationBuilder type
@@ -75,6 +281,12 @@ export const conversationsRelations = relations(conversations, ({ one }) => ({
   }),
 }));
 
+// Unlisted snippets are readable by anyone with the link; public ones are also listed
+export const snippetVisibilities = ['private', 'unlisted', 'public'] as const;
+
+// Roles a user can hold; add new ones here and guard routes with requireRole
+export const userRoles = ['user', 'admin'] as const;
+
 // Create insert schemas with validation
 export const insertUserSchema = createInsertSchema(users, {
   email: z.string().email(),
@@ -95,6 +307,16 @@ export const insertSnippetSchema = createInsertSchema(snippets, {
   title: z.string().min(1),
   code: z.string().min(1),
   language: z.string().min(1),
+  visibility: z.enum(snippetVisibilities),
+});
+
+// Tag names are trimmed and lowercased before they are stored or looked up
+export const tagNameSchema = z.string().trim().toLowerCase().min(1).max(50);
+
+export const insertCollectionSchema = createInsertSchema(collections, {
+  userId: z.number().positive(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500),
 });
 
 export const insertConversationSchema = createInsertSchema(conversations, {
@@ -112,22 +334,73 @@ export const insertAIModelSchema = createInsertSchema(aiModels, {
   name: z.string().min(1),
   description: z.string().min(1),
   type: z.enum(['code', 'chat', 'image-to-code']),
+  provider: z.string().min(1),
+  modelId: z.string().min(1),
+  maxTokens: z.number().int().positive(),
+  temperature: z.number().min(0).max(2),
+  tags: z.array(z.string()),
   isDefault: z.boolean(),
   requiresSubscription: z.boolean(),
 });
 
+export const insertUsageEventSchema = createInsertSchema(usageEvents, {
+  userId: z.number().positive(),
+  kind: z.enum(['generate-code', 'image-to-code', 'chat']),
+  modelId: z.string().min(1),
+  promptChars: z.number().int().nonnegative(),
+  responseChars: z.number().int().nonnegative(),
+  latencyMs: z.number().int().nonnegative(),
+});
+
+export const apiTokenScopes = ['generate', 'snippets', 'conversations', 'usage'] as const;
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  userId: z.number().positive(),
+  name: z.string().min(1).max(100),
+  tokenHash: z.string().min(1),
+  tokenPrefix: z.string().min(1),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1),
+});
+
 // Define types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRole = typeof userRoles[number];
 
 export type InsertPlan = z.infer<typeof insertPlanSchema>;
 export type Plan = typeof plans.$inferSelect;
 
 export type InsertSnippet = z.infer<typeof insertSnippetSchema>;
 export type Snippet = typeof snippets.$inferSelect;
+export type SnippetVersion = typeof snippetVersions.$inferSelect;
+export type SnippetVisibility = typeof snippetVisibilities[number];
+
+export type Tag = typeof tags.$inferSelect;
+export type TagWithCount = Tag & { snippetCount: number };
+
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type Collection = typeof collections.$inferSelect;
+export type CollectionWithCount = Collection & { snippetCount: number };
 
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 
 export type InsertAIModel = z.infer<typeof insertAIModelSchema>;
 export type AIModel = typeof aiModels.$inferSelect;
+
+export type InsertUsageEvent = z.infer<typeof insertUsageEventSchema>;
+export type UsageEvent = typeof usageEvents.$inferSelect;
+
+export type GenerationCacheEntry = typeof generationCache.$inferSelect;
+
+export type AuthToken = typeof authTokens.$inferSelect;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type ApiTokenScope = typeof apiTokenScopes[number];